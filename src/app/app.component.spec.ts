@@ -1,10 +1,17 @@
 import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
 import { AppComponent } from './app.component';
+import { mockBackendInterceptor } from './interceptors/mock-backend.interceptor';
 
 describe('AppComponent', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [AppComponent],
+      providers: [
+        provideRouter([]),
+        provideHttpClient(withInterceptors([mockBackendInterceptor])),
+      ],
     }).compileComponents();
   });
 
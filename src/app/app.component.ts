@@ -1,9 +1,11 @@
 import { Component } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
+import { IdleWarningDialogComponent } from './components/idle-warning-dialog/idle-warning-dialog.component';
+import { SyncIndicatorComponent } from './components/sync-indicator/sync-indicator.component';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet],
+  imports: [RouterOutlet, IdleWarningDialogComponent, SyncIndicatorComponent],
   templateUrl: './app.component.html',
   styleUrl: './app.component.scss'
 })
@@ -1,4 +1,10 @@
-import { ApplicationConfig, importProvidersFrom, provideZoneChangeDetection } from '@angular/core';
+import {
+  ApplicationConfig,
+  importProvidersFrom,
+  inject,
+  provideAppInitializer,
+  provideZoneChangeDetection,
+} from '@angular/core';
 import { provideRouter } from '@angular/router';
 
 import { routes } from './app.routes';
@@ -10,7 +16,13 @@ import { FormsModule } from '@angular/forms';
 import { provideAnimationsAsync } from '@angular/platform-browser/animations/async';
 import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { authInterceptor } from './interceptors/auth.interceptor';
-import { provideHttpClient } from '@angular/common/http';
+import { idempotencyInterceptor } from './interceptors/idempotency.interceptor';
+import { inFlightInterceptor } from './interceptors/in-flight.interceptor';
+import { httpCacheInterceptor } from './interceptors/http-cache.interceptor';
+import { SessionSyncService } from './services/session-sync.service';
+import { IdleMonitorService } from './services/idle-monitor.service';
+import { OfflineSyncService } from './services/offline-sync.service';
+import { environment } from '../environments/environment';
 
 registerLocaleData(en);
 
@@ -19,5 +31,10 @@ export const appConfig: ApplicationConfig = {
   provideRouter(routes), provideClientHydration(withEventReplay()), 
   provideNzI18n(en_US), 
   importProvidersFrom(FormsModule), 
-  provideAnimationsAsync(), provideHttpClient(withInterceptors([authInterceptor]))]
+  provideAnimationsAsync(), provideHttpClient(withInterceptors([idempotencyInterceptor, inFlightInterceptor, httpCacheInterceptor, authInterceptor, ...environment.httpInterceptors])),
+  provideAppInitializer(() => {
+    inject(SessionSyncService).start();
+    inject(IdleMonitorService).start();
+    inject(OfflineSyncService).start();
+  })]
 };
@@ -1,5 +1,11 @@
 import { Routes } from '@angular/router';
 import { authGuard } from './guards/auth.guard';
+import { guestGuard } from './guards/guest.guard';
+import { verifiedEmailGuard } from './guards/verified-email.guard';
+import {
+  onboardingCompleteGuard,
+  onboardingPendingGuard,
+} from './guards/onboarding.guard';
 
 export const routes: Routes = [
   {
@@ -9,12 +15,14 @@ export const routes: Routes = [
   },
   {
     path: 'login',
+    canActivate: [guestGuard],
     loadComponent: () =>
       import('./views/login/login.component').then((m) => m.LoginComponent),
     data: { title: 'Login - LifeSync' },
   },
   {
     path: 'register',
+    canActivate: [guestGuard],
     loadComponent: () =>
       import('./views/registration/registration.component').then(
         (m) => m.RegistrationComponent
@@ -22,11 +30,68 @@ export const routes: Routes = [
     data: { title: 'Register - LifeSync' },
   },
   {
-    path: 'dashboard',
+    path: 'forgot-password',
+    loadComponent: () =>
+      import('./views/forgot-password/forgot-password.component').then(
+        (m) => m.ForgotPasswordComponent
+      ),
+    data: { title: 'Forgot Password - LifeSync' },
+  },
+  {
+    path: 'reset-password',
+    loadComponent: () =>
+      import('./views/reset-password/reset-password.component').then(
+        (m) => m.ResetPasswordComponent
+      ),
+    data: { title: 'Reset Password - LifeSync' },
+  },
+  {
+    path: 'auth/callback',
+    loadComponent: () =>
+      import('./views/auth-callback/auth-callback.component').then(
+        (m) => m.AuthCallbackComponent
+      ),
+    data: { title: 'Verifying Email - LifeSync' },
+  },
+  {
+    path: 'verify-email',
     canActivate: [authGuard],
+    loadComponent: () =>
+      import('./views/verify-email/verify-email.component').then(
+        (m) => m.VerifyEmailComponent
+      ),
+    data: { title: 'Verify Email - LifeSync' },
+  },
+  {
+    path: 'onboarding',
+    canActivate: [authGuard, verifiedEmailGuard, onboardingPendingGuard],
+    loadComponent: () =>
+      import('./views/onboarding/onboarding.component').then(
+        (m) => m.OnboardingComponent
+      ),
+    data: { title: 'Get Started - LifeSync' },
+  },
+  {
+    path: 'dashboard',
+    canActivate: [authGuard, verifiedEmailGuard, onboardingCompleteGuard],
     loadComponent: () =>
       import('./views/dashboard/dashboard.component').then((m) => m.DashboardComponent),
   },
+  {
+    path: 'account',
+    canActivate: [authGuard, verifiedEmailGuard],
+    loadComponent: () =>
+      import('./views/account-settings/account-settings.component').then(
+        (m) => m.AccountSettingsComponent
+      ),
+    data: { title: 'Account Settings - LifeSync' },
+  },
+  {
+    path: 'goodbye',
+    loadComponent: () =>
+      import('./views/goodbye/goodbye.component').then((m) => m.GoodbyeComponent),
+    data: { title: 'Account Deleted - LifeSync' },
+  },
   {
     path: '**',
     redirectTo: '/login',
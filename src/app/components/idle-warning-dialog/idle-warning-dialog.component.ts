@@ -0,0 +1,40 @@
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NzModalModule } from 'ng-zorro-antd/modal';
+import { IdleMonitorService } from '../../services/idle-monitor.service';
+
+/**
+ * IdleWarningDialogComponent
+ *
+ * Modal countdown shown by IdleMonitorService before an idle session is
+ * logged out. The user can stay signed in or log out right away.
+ */
+@Component({
+  selector: 'app-idle-warning-dialog',
+  standalone: true,
+  imports: [CommonModule, NzModalModule],
+  template: `
+    <nz-modal
+      nzCancelText="Log out"
+      nzOkText="Stay signed in"
+      nzTitle="Are you still there?"
+      [nzClosable]="false"
+      [nzKeyboard]="false"
+      [nzMaskClosable]="false"
+      [nzVisible]="idleMonitor.warningVisible()"
+      (nzOnCancel)="idleMonitor.logoutNow()"
+      (nzOnOk)="idleMonitor.stayActive()">
+      <ng-container *nzModalContent>
+        <p class="text-gray-700">
+          For your privacy, you will be logged out in
+          <strong>{{ idleMonitor.secondsRemaining() }}</strong>
+          seconds due to inactivity.
+        </p>
+      </ng-container>
+    </nz-modal>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class IdleWarningDialogComponent {
+  protected readonly idleMonitor = inject(IdleMonitorService);
+}
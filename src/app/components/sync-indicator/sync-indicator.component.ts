@@ -0,0 +1,96 @@
+import { Component, ChangeDetectionStrategy, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NzButtonModule } from 'ng-zorro-antd/button';
+import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { OfflineSyncService } from '../../services/offline-sync.service';
+import { toLoginError } from '../../utils/api-error';
+import { PendingWrite } from '../../../types';
+
+const PREVIEW_LENGTH = 40;
+
+/**
+ * SyncIndicatorComponent
+ *
+ * Global status of OfflineSyncService, shown in the bottom corner while
+ * the signed-in user has writes waiting to sync. Lists writes the API
+ * rejected (e.g. daily note limit) with their reason, to retry or discard.
+ */
+@Component({
+  selector: 'app-sync-indicator',
+  standalone: true,
+  imports: [CommonModule, NzButtonModule, NzSpinModule],
+  template: `
+    @if (isVisible()) {
+      <aside
+        class="fixed bottom-4 right-4 z-50 w-80 max-w-[calc(100vw-2rem)] rounded-lg border border-gray-200 bg-white p-4 shadow-lg"
+        aria-live="polite">
+        @if (offlineSync.progress(); as progress) {
+          <div class="flex items-center gap-2 text-sm text-gray-700">
+            <nz-spin nzSimple [nzSize]="'small'"></nz-spin>
+            <span>Syncing changes… {{ progress.done }} of {{ progress.total }}</span>
+          </div>
+        } @else if (offlineSync.pendingCount() > 0) {
+          <div class="flex items-center justify-between gap-2 text-sm text-gray-700">
+            <span>
+              {{ offlineSync.isOnline() ? 'Waiting to sync' : 'You are offline.' }}
+              {{ offlineSync.pendingCount() }}
+              {{ offlineSync.pendingCount() === 1 ? 'change' : 'changes' }} pending sync.
+            </span>
+            @if (offlineSync.isOnline()) {
+              <button nz-button nzType="link" nzSize="small" (click)="offlineSync.replay()">Sync now</button>
+            }
+          </div>
+        }
+
+        @if (rejected().length > 0) {
+          <p class="mt-2 text-sm font-medium text-red-600">
+            {{ rejected().length === 1 ? '1 change' : rejected().length + ' changes' }} could not be synced
+          </p>
+          <ul class="mt-2 space-y-3">
+            @for (item of rejected(); track item.id) {
+              <li class="text-sm">
+                <p class="text-gray-800">{{ item.label }}</p>
+                <p class="text-gray-500">{{ item.reason }}</p>
+                <div class="mt-1 flex gap-2">
+                  <button nz-button nzSize="small" (click)="offlineSync.retry(item.id)">Retry</button>
+                  <button nz-button nzSize="small" nzDanger (click)="offlineSync.discard(item.id)">Discard</button>
+                </div>
+              </li>
+            }
+          </ul>
+        }
+      </aside>
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SyncIndicatorComponent {
+  protected readonly offlineSync = inject(OfflineSyncService);
+
+  protected readonly rejected = computed(() =>
+    this.offlineSync.rejectedItems().map((item) => ({
+      id: item.id,
+      label: describeWrite(item.write),
+      reason: item.error ? toLoginError(item.error).message : 'The server rejected this change.',
+    }))
+  );
+
+  protected readonly isVisible = computed(
+    () => this.offlineSync.isSyncing() || this.offlineSync.pendingCount() > 0 || this.rejected().length > 0
+  );
+}
+
+function describeWrite(write: PendingWrite): string {
+  switch (write.kind) {
+    case 'create_note':
+      return `New note: “${preview(write.body.content)}”`;
+    case 'update_note':
+      return `Edited note: “${preview(write.body.content ?? '')}”`;
+    case 'submit_feedback':
+      return 'Report feedback';
+  }
+}
+
+function preview(text: string): string {
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
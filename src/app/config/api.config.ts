@@ -0,0 +1,65 @@
+import { InjectionToken, Provider } from '@angular/core';
+import { HttpInterceptorFn } from '@angular/common/http';
+import { environment } from '../../environments/environment';
+import { LoggingConfig } from './logging.config';
+
+export type ApiConfig = {
+  baseUrl: string; // API root, e.g. http://localhost:3000/api
+  timeoutMs: number; // Per-request timeout applied by services and views
+  maxRequestTimeoutMs: number; // Upper bound authInterceptor applies to every request
+  retryCount: number; // Automatic retries for the dashboard read (network and 5xx errors)
+  responseValidationSampleRate: number; // Share of responses checked against DTO schemas, 0-1
+};
+
+export type Environment = {
+  production: boolean;
+  runtimeConfigUrl: string | null; // Optional config.json fetched before bootstrap
+  api: ApiConfig;
+  logging: LoggingConfig;
+  // Appended to the app's interceptor chain; only the mock environment sets any,
+  // so other builds never bundle src/app/mocks/
+  httpInterceptors: HttpInterceptorFn[];
+};
+
+/**
+ * API configuration, defaults to the `api` section of the environment file
+ * selected at build time (see fileReplacements in angular.json).
+ * main.ts overrides it with values from config.json when one is deployed.
+ */
+export const API_CONFIG = new InjectionToken<ApiConfig>('API_CONFIG', {
+  providedIn: 'root',
+  factory: (): ApiConfig => environment.api,
+});
+
+export function provideApiConfig(config: ApiConfig): Provider {
+  return { provide: API_CONFIG, useValue: config };
+}
+
+/**
+ * Load the runtime configuration before the app starts
+ *
+ * Fetches `runtimeConfigUrl` (config.json next to index.html) and merges it
+ * over the build-time values, so the same build can be deployed to several
+ * environments. A missing or invalid file keeps the build-time values.
+ *
+ * @returns Effective API configuration
+ */
+export async function loadApiConfig(
+  env: Environment = environment
+): Promise<ApiConfig> {
+  if (!env.runtimeConfigUrl || typeof fetch === 'undefined') {
+    return env.api;
+  }
+
+  try {
+    const response = await fetch(env.runtimeConfigUrl, { cache: 'no-cache' });
+    if (!response.ok) {
+      return env.api;
+    }
+
+    const runtimeConfig: { api?: Partial<ApiConfig> } = await response.json();
+    return { ...env.api, ...runtimeConfig.api };
+  } catch {
+    return env.api;
+  }
+}
@@ -0,0 +1,38 @@
+import { InjectionToken, Provider, inject } from '@angular/core';
+import { environment } from '../../environments/environment';
+import { ConsoleLogSink, HttpCollectorLogSink, LogSink } from '../utils/log-sinks';
+import { LogLevel } from '../../types';
+
+export type LoggingConfig = {
+  minLevel: LogLevel; // Entries below this level are dropped
+  batchSize: number; // Warnings and errors buffered before they are shipped
+  flushIntervalMs: number; // Longest a buffered entry waits to be shipped
+  collectorUrl: string | null; // Ship to this HTTP endpoint instead of the console, e.g. a local collector
+};
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Logging configuration, defaults to the `logging` section of the
+ * environment file selected at build time
+ */
+export const LOGGING_CONFIG = new InjectionToken<LoggingConfig>('LOGGING_CONFIG', {
+  providedIn: 'root',
+  factory: (): LoggingConfig => environment.logging,
+});
+
+/**
+ * Destination of the warnings and errors LoggerService ships in batches:
+ * the console, or the HTTP collector when `collectorUrl` is set
+ */
+export const LOG_SINK = new InjectionToken<LogSink>('LOG_SINK', {
+  providedIn: 'root',
+  factory: (): LogSink => {
+    const { collectorUrl } = inject(LOGGING_CONFIG);
+    return collectorUrl ? new HttpCollectorLogSink(collectorUrl) : new ConsoleLogSink();
+  },
+});
+
+export function provideLogSink(sink: LogSink): Provider {
+  return { provide: LOG_SINK, useValue: sink };
+}
@@ -43,3 +43,14 @@ export const authGuard: CanActivateFn = (
     queryParams: { returnUrl: state.url },
   });
 };
+
+/**
+ * Whether the given route snapshot (or any of its children) is protected by authGuard.
+ * Used to decide if a tab must leave its current page when the session ends.
+ */
+export function isAuthGuarded(route: ActivatedRouteSnapshot): boolean {
+  if (route.routeConfig?.canActivate?.includes(authGuard)) {
+    return true;
+  }
+  return route.children.some((child) => isAuthGuarded(child));
+}
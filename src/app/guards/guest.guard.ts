@@ -0,0 +1,47 @@
+import { inject } from '@angular/core';
+import {
+  CanActivateFn,
+  Router,
+  ActivatedRouteSnapshot,
+  RouterStateSnapshot,
+  UrlTree,
+} from '@angular/router';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Functional Guest Guard for pages that only make sense when signed out
+ * (login, registration).
+ *
+ * Behavior:
+ * - If user is not authenticated: allows navigation
+ * - If user is authenticated: redirects to the returnUrl query param when it
+ *   is an in-app path, otherwise to /dashboard
+ *
+ * Usage in routes:
+ * ```
+ * {
+ *   path: 'login',
+ *   component: LoginComponent,
+ *   canActivate: [guestGuard]
+ * }
+ * ```
+ */
+export const guestGuard: CanActivateFn = (
+  route: ActivatedRouteSnapshot,
+  state: RouterStateSnapshot
+): boolean | UrlTree => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+
+  if (!authService.isAuthenticated()) {
+    return true;
+  }
+
+  // Only follow relative in-app paths, never protocol-relative or absolute URLs
+  const returnUrl: string | undefined = route.queryParams['returnUrl'];
+  if (returnUrl && returnUrl.startsWith('/') && !returnUrl.startsWith('//')) {
+    return router.parseUrl(returnUrl);
+  }
+
+  return router.createUrlTree(['/dashboard']);
+};
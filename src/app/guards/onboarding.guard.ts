@@ -0,0 +1,65 @@
+import { inject } from '@angular/core';
+import {
+  CanActivateFn,
+  Router,
+  ActivatedRouteSnapshot,
+  RouterStateSnapshot,
+  UrlTree,
+} from '@angular/router';
+import { Observable, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { AuthService } from '../services/auth.service';
+import { MeResponseDto } from '../../types';
+
+function isOnboarded(me: MeResponseDto): boolean {
+  return me.hasProfile && me.hasPreferences;
+}
+
+/**
+ * Functional Onboarding Guard for app routes that need a profile and preferences.
+ * Must be listed after authGuard and verifiedEmailGuard; the decision comes
+ * from `MeResponseDto.hasProfile` / `hasPreferences` returned by /api/me.
+ *
+ * Behavior:
+ * - If onboarding is complete: allows navigation
+ * - Otherwise: redirects to /onboarding
+ * - On errors: allows navigation (verifiedEmailGuard already handles 401)
+ *
+ * Usage in routes:
+ * ```
+ * {
+ *   path: 'dashboard',
+ *   component: DashboardComponent,
+ *   canActivate: [authGuard, verifiedEmailGuard, onboardingCompleteGuard]
+ * }
+ * ```
+ */
+export const onboardingCompleteGuard: CanActivateFn = (
+  route: ActivatedRouteSnapshot,
+  state: RouterStateSnapshot
+): Observable<boolean | UrlTree> => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+
+  return authService.loadMe().pipe(
+    map((me) => (isOnboarded(me) ? true : router.createUrlTree(['/onboarding']))),
+    catchError(() => of(true))
+  );
+};
+
+/**
+ * Functional guard for the onboarding wizard itself.
+ * Users who already finished onboarding are sent to /dashboard.
+ */
+export const onboardingPendingGuard: CanActivateFn = (
+  route: ActivatedRouteSnapshot,
+  state: RouterStateSnapshot
+): Observable<boolean | UrlTree> => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+
+  return authService.loadMe().pipe(
+    map((me) => (isOnboarded(me) ? router.createUrlTree(['/dashboard']) : true)),
+    catchError(() => of(true))
+  );
+};
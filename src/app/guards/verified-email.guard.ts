@@ -0,0 +1,60 @@
+import { inject } from '@angular/core';
+import {
+  CanActivateFn,
+  Router,
+  ActivatedRouteSnapshot,
+  RouterStateSnapshot,
+  UrlTree,
+} from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Functional Verified Email Guard for routes that require a confirmed email.
+ * Must be listed after authGuard; the decision comes from
+ * `MeResponseDto.emailVerified` returned by /api/me.
+ *
+ * Behavior:
+ * - If the email is verified: allows navigation
+ * - If not verified: redirects to /verify-email with returnUrl query param
+ * - If /api/me rejects the session (401): redirects to /login with returnUrl
+ * - On other errors (e.g. offline): allows navigation and lets the page
+ *   surface its own error state
+ *
+ * Usage in routes:
+ * ```
+ * {
+ *   path: 'dashboard',
+ *   component: DashboardComponent,
+ *   canActivate: [authGuard, verifiedEmailGuard]
+ * }
+ * ```
+ */
+export const verifiedEmailGuard: CanActivateFn = (
+  route: ActivatedRouteSnapshot,
+  state: RouterStateSnapshot
+): Observable<boolean | UrlTree> => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+
+  return authService.loadMe().pipe(
+    map((me) =>
+      me.emailVerified
+        ? true
+        : router.createUrlTree(['/verify-email'], {
+            queryParams: { returnUrl: state.url },
+          })
+    ),
+    catchError((error: HttpErrorResponse) =>
+      of(
+        error.status === 401
+          ? router.createUrlTree(['/login'], {
+              queryParams: { returnUrl: state.url },
+            })
+          : true
+      )
+    )
+  );
+};
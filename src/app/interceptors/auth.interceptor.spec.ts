@@ -0,0 +1,166 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, TestRequest, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { authInterceptor } from './auth.interceptor';
+import { AuthService } from '../services/auth.service';
+import { MemoryStorageBackend, TOKEN_STORAGE_BACKENDS } from '../services/token-storage.service';
+import { API_CONFIG, ApiConfig } from '../config/api.config';
+import { SignInResponseDto } from '../../types';
+
+const API_URL = '/api';
+
+const API_CONFIG_STUB: ApiConfig = {
+  baseUrl: API_URL,
+  timeoutMs: 10000,
+  maxRequestTimeoutMs: 30000,
+  retryCount: 0,
+  responseValidationSampleRate: 0,
+};
+
+function refreshed(accessToken: string): SignInResponseDto {
+  return {
+    user: { id: 'user-1', email: 'jane@example.com', email_confirmed_at: '2025-01-01T00:00:00Z' },
+    session: { access_token: accessToken, refresh_token: 'refresh-2', expires_in: 3600, token_type: 'bearer' },
+  };
+}
+
+describe('authInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let authService: AuthService;
+  let router: jasmine.SpyObj<Router>;
+
+  function signIn(expiresInMs: number): void {
+    const storage = new MemoryStorageBackend();
+    storage.setItem('access_token', 'access-1');
+    storage.setItem('refresh_token', 'refresh-1');
+    storage.setItem('token_expires_at', String(Date.now() + expiresInMs));
+    storage.setItem('user_id', 'user-1');
+
+    router = jasmine.createSpyObj<Router>('Router', ['navigate'], { url: '/notes' });
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([authInterceptor])),
+        provideHttpClientTesting(),
+        { provide: API_CONFIG, useValue: API_CONFIG_STUB },
+        { provide: TOKEN_STORAGE_BACKENDS, useValue: { local: storage, session: storage, memory: storage } },
+        { provide: Router, useValue: router },
+      ],
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+    authService = TestBed.inject(AuthService);
+  }
+
+  // In browsers the refresh starts asynchronously, once it holds the Web Lock
+  async function expectRefresh(): Promise<TestRequest> {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const [req] = httpMock.match(`${API_URL}/refresh`);
+      if (req) return req;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return httpMock.expectOne(`${API_URL}/refresh`);
+  }
+
+  afterEach(() => {
+    httpMock.verify();
+    authService.logout();
+  });
+
+  describe('with a valid access token', () => {
+    beforeEach(() => signIn(60 * 60 * 1000));
+
+    it('should send the access token', () => {
+      http.get(`${API_URL}/notes`).subscribe();
+
+      const req = httpMock.expectOne(`${API_URL}/notes`);
+      expect(req.request.headers.get('Authorization')).toBe('Bearer access-1');
+      req.flush([]);
+    });
+
+    it('should refresh the session on 401 and retry the request once', async () => {
+      const result = firstValueFrom(http.get(`${API_URL}/notes`));
+
+      httpMock.expectOne(`${API_URL}/notes`).flush(null, { status: 401, statusText: 'Unauthorized' });
+      const refresh = await expectRefresh();
+      expect(refresh.request.body).toEqual({ refresh_token: 'refresh-1' });
+      refresh.flush(refreshed('access-2'));
+
+      const retry = httpMock.expectOne(`${API_URL}/notes`);
+      expect(retry.request.headers.get('Authorization')).toBe('Bearer access-2');
+      retry.flush(['note']);
+
+      expect(await result).toEqual(['note']);
+      expect(authService.getAccessToken()).toBe('access-2');
+    });
+
+    it('should log out when the retried request is rejected again', async () => {
+      const result = firstValueFrom(http.get(`${API_URL}/notes`));
+
+      httpMock.expectOne(`${API_URL}/notes`).flush(null, { status: 401, statusText: 'Unauthorized' });
+      (await expectRefresh()).flush(refreshed('access-2'));
+      httpMock.expectOne(`${API_URL}/notes`).flush(null, { status: 401, statusText: 'Unauthorized' });
+
+      await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({ status: 401 }));
+      httpMock.expectNone(`${API_URL}/refresh`);
+      expect(authService.isAuthenticated()).toBeFalse();
+    });
+
+    it('should share one refresh between concurrent 401s', async () => {
+      const notes = firstValueFrom(http.get(`${API_URL}/notes`));
+      const dashboard = firstValueFrom(http.get(`${API_URL}/dashboard`));
+
+      httpMock.expectOne(`${API_URL}/notes`).flush(null, { status: 401, statusText: 'Unauthorized' });
+      httpMock.expectOne(`${API_URL}/dashboard`).flush(null, { status: 401, statusText: 'Unauthorized' });
+      (await expectRefresh()).flush(refreshed('access-2'));
+      httpMock.expectNone(`${API_URL}/refresh`);
+
+      httpMock.expectOne(`${API_URL}/notes`).flush(['note']);
+      httpMock.expectOne(`${API_URL}/dashboard`).flush({ categories: [] });
+
+      expect(await notes).toEqual(['note']);
+      expect(await dashboard).toEqual({ categories: [] });
+    });
+
+    it('should log out and redirect to login when the refresh fails', async () => {
+      const result = firstValueFrom(http.get(`${API_URL}/notes`));
+
+      httpMock.expectOne(`${API_URL}/notes`).flush(null, { status: 401, statusText: 'Unauthorized' });
+      (await expectRefresh()).flush(null, { status: 401, statusText: 'Unauthorized' });
+
+      await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({ status: 401, url: `${API_URL}/notes` }));
+      expect(authService.isAuthenticated()).toBeFalse();
+      expect(router.navigate).toHaveBeenCalledWith(['/login'], { queryParams: { returnUrl: '/notes' } });
+    });
+
+    it('should pass other errors through without refreshing', async () => {
+      const result = firstValueFrom(http.get(`${API_URL}/notes`));
+
+      httpMock.expectOne(`${API_URL}/notes`).flush(null, { status: 403, statusText: 'Forbidden' });
+
+      await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({ status: 403 }));
+      httpMock.expectNone(`${API_URL}/refresh`);
+      expect(authService.isAuthenticated()).toBeTrue();
+    });
+  });
+
+  describe('with an expiring access token', () => {
+    beforeEach(() => signIn(30 * 1000));
+
+    it('should refresh the session before sending the request', async () => {
+      const result = firstValueFrom(http.get(`${API_URL}/notes`));
+
+      const refresh = await expectRefresh();
+      httpMock.expectNone(`${API_URL}/notes`);
+      refresh.flush(refreshed('access-2'));
+
+      const req = httpMock.expectOne(`${API_URL}/notes`);
+      expect(req.request.headers.get('Authorization')).toBe('Bearer access-2');
+      req.flush([]);
+
+      expect(await result).toEqual([]);
+    });
+  });
+});
@@ -7,30 +7,84 @@ import {
   HttpEventType,
 } from '@angular/common/http';
 import { Observable, throwError } from 'rxjs';
-import { catchError, tap, timeout } from 'rxjs/operators';
+import { catchError, switchMap, tap, timeout } from 'rxjs/operators';
 import { Router } from '@angular/router';
-
-const REQUEST_TIMEOUT = 30000; // 30 seconds
+import { AuthService } from '../services/auth.service';
+import { Logger, LoggerService } from '../services/logger.service';
+import { SKIP_TOKEN_REFRESH } from './http-context.tokens';
+import { API_CONFIG } from '../config/api.config';
 
 /**
  * Functional HTTP Interceptor for authentication
  * - Automatically attaches JWT token to all requests
- * - Handles 401 Unauthorized responses by redirecting to login
+ * - Refreshes the access token before it expires
+ * - On 401 Unauthorized, refreshes the session once and retries the request
+ * - Redirects to login only when the refresh itself fails
  * - Adds request timeout protection
- * - Logs HTTP responses
+ * - Logs HTTP responses at debug level
  */
 export function authInterceptor(
   req: HttpRequest<unknown>,
   next: HttpHandlerFn
 ): Observable<HttpEvent<unknown>> {
   const router = inject(Router);
+  const authService = inject(AuthService);
+  const { maxRequestTimeoutMs } = inject(API_CONFIG);
+  const logger = inject(LoggerService).scoped('HTTP');
+
+  // Auth endpoints report bad credentials as 401, pass those through untouched
+  if (req.context.get(SKIP_TOKEN_REFRESH)) {
+    return sendWithToken(req, next, authService.getAccessToken(), maxRequestTimeoutMs, logger);
+  }
+
+  // Refresh the session (shared across concurrent requests) and replay the request.
+  // A failed refresh surfaces as the original 401 so it ends the session below.
+  const retryWithFreshToken = (
+    unauthorized: HttpErrorResponse
+  ): Observable<HttpEvent<unknown>> =>
+    authService.refreshAccessToken().pipe(
+      catchError(() => throwError(() => unauthorized)),
+      switchMap((token) => sendWithToken(req, next, token, maxRequestTimeoutMs, logger))
+    );
 
-  // Get JWT token from localStorage or session storage
-  const token = getAuthToken();
+  const request$ =
+    authService.isAccessTokenExpiring() && authService.getRefreshToken()
+      ? retryWithFreshToken(
+          new HttpErrorResponse({
+            status: 401,
+            statusText: 'Access token expired',
+            url: req.url,
+          })
+        )
+      : sendWithToken(req, next, authService.getAccessToken(), maxRequestTimeoutMs, logger).pipe(
+          catchError((error: HttpErrorResponse) =>
+            error.status === 401 && authService.getRefreshToken()
+              ? retryWithFreshToken(error)
+              : throwError(() => error)
+          )
+        );
+
+  return request$.pipe(
+    catchError((error: HttpErrorResponse) => {
+      return handleAuthError(error, router, authService, logger);
+    })
+  );
+}
 
-  // Clone request and add Authorization header if token exists
+/**
+ * Send the request with the given bearer token, timeout protection and logging
+ */
+function sendWithToken(
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn,
+  token: string | null,
+  timeoutMs: number,
+  logger: Logger
+): Observable<HttpEvent<unknown>> {
+  // Clone request and add Authorization header if token exists,
+  // keeping any header the caller set explicitly
   let authReq = req;
-  if (token) {
+  if (token && !req.headers.has('Authorization')) {
     authReq = req.clone({
       setHeaders: {
         Authorization: `Bearer ${token}`,
@@ -38,83 +92,60 @@ export function authInterceptor(
     });
   }
 
-  // Add timeout and error handling
+  // Add timeout and response logging
   return next(authReq).pipe(
-    timeout(REQUEST_TIMEOUT),
+    timeout(timeoutMs),
     tap((event) => {
       // Log responses for debugging
       if (event.type === HttpEventType.Response) {
-        console.log(
-          `[HTTP] ${req.method} ${req.url} - Status: ${event.status}`
-        );
+        logger.debug(`${req.method} ${req.url} - Status: ${event.status}`);
       }
-    }),
-    catchError((error: HttpErrorResponse) => {
-      return handleAuthError(error, router);
     })
   );
 }
 
-/**
- * Get JWT token from storage
- */
-function getAuthToken(): string | null {
-  // Try to get from localStorage first, then sessionStorage
-  let token = localStorage.getItem('access_token');
-  if (!token) {
-    token = sessionStorage.getItem('access_token');
-  }
-  return token;
-}
-
 /**
  * Handle authentication-related HTTP errors
  */
 function handleAuthError(
   error: HttpErrorResponse,
-  router: Router
+  router: Router,
+  authService: AuthService,
+  logger: Logger
 ): Observable<never> {
-  // 401 Unauthorized - Session expired or invalid token
+  // 401 Unauthorized - Session could not be refreshed
   if (error.status === 401) {
-    console.warn('[AUTH] Unauthorized access - Session expired');
+    logger.warn('Unauthorized access - Session expired');
 
-    // Clear stored tokens
-    clearAuthTokens();
+    // Clear stored tokens and session state
+    authService.logout();
 
     // Redirect to login with return URL
     router.navigate(['/login'], {
       queryParams: { returnUrl: router.url },
     });
 
-    return throwError(() => new Error('Unauthorized - Session expired'));
+    return throwError(() => error);
+  }
+
+  // 304 Not Modified - Conditional GET answered for httpCacheInterceptor
+  if (error.status === 304) {
+    return throwError(() => error);
   }
 
   // 403 Forbidden - User lacks permissions
   if (error.status === 403) {
-    console.error('[AUTH] Access forbidden');
+    logger.error('Access forbidden');
     return throwError(() => error);
   }
 
   // Network timeout or connection error
   if (error.status === 0) {
-    console.error('[AUTH] Network error or request timeout');
-    return throwError(() => new Error('Network connection failed'));
+    logger.error('Network error or request timeout');
+    return throwError(() => error);
   }
 
   // Other errors - log and pass through
-  console.error(
-    `[HTTP ERROR] ${error.status} ${error.statusText}:`,
-    error.message
-  );
+  logger.error(`${error.status} ${error.statusText}`, error.message);
   return throwError(() => error);
 }
-
-/**
- * Clear authentication tokens from storage
- */
-function clearAuthTokens(): void {
-  localStorage.removeItem('access_token');
-  localStorage.removeItem('refresh_token');
-  sessionStorage.removeItem('access_token');
-  sessionStorage.removeItem('refresh_token');
-}
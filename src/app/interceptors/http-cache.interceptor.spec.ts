@@ -0,0 +1,156 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpHeaders, HttpResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { firstValueFrom, toArray } from 'rxjs';
+import { httpCacheInterceptor, withCache } from './http-cache.interceptor';
+import { HttpCacheService } from '../services/http-cache.service';
+import { HttpCacheEntry, HttpCachePolicy } from '../../types';
+
+// In-memory stand-in for the IndexedDB backed cache
+class FakeHttpCacheService {
+  readonly entries = new Map<string, HttpCacheEntry>();
+
+  async get(url: string): Promise<HttpCacheEntry | undefined> {
+    return this.entries.get(url);
+  }
+
+  save(url: string, response: HttpResponse<unknown>, policy: HttpCachePolicy): void {
+    const now = Date.now();
+    this.entries.set(url, {
+      url,
+      body: response.body,
+      etag: response.headers.get('ETag'),
+      storedAt: now,
+      expiresAt: now + policy.ttlMs,
+    });
+  }
+
+  revalidated(entry: HttpCacheEntry, _headers: HttpHeaders, policy: HttpCachePolicy): HttpCacheEntry {
+    const refreshed = { ...entry, storedAt: Date.now(), expiresAt: Date.now() + policy.ttlMs };
+    this.entries.set(entry.url, refreshed);
+    return refreshed;
+  }
+}
+
+const URL = '/api/dashboard';
+const POLICY: HttpCachePolicy = { ttlMs: 60000, staleWhileRevalidate: false };
+
+// Let the cache lookup (a promise) settle before inspecting requests
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve));
+
+describe('httpCacheInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let cache: FakeHttpCacheService;
+
+  beforeEach(() => {
+    cache = new FakeHttpCacheService();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([httpCacheInterceptor])),
+        provideHttpClientTesting(),
+        { provide: HttpCacheService, useValue: cache },
+      ],
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  function storeEntry(entry: Partial<HttpCacheEntry>): void {
+    cache.entries.set(URL, {
+      url: URL,
+      body: { version: 'cached' },
+      etag: '"v1"',
+      storedAt: Date.now() - 120000,
+      expiresAt: Date.now() - 60000,
+      ...entry,
+    });
+  }
+
+  function getAll(policy: HttpCachePolicy = POLICY): Promise<unknown[]> {
+    return firstValueFrom(http.get(URL, { context: withCache(policy) }).pipe(toArray()));
+  }
+
+  it('should pass requests without a policy through', async () => {
+    storeEntry({ expiresAt: Date.now() + 60000 });
+    const result = firstValueFrom(http.get(URL));
+
+    httpMock.expectOne(URL).flush({ version: 'live' });
+
+    expect(await result).toEqual({ version: 'live' });
+  });
+
+  it('should store a 200 response and answer from the cache while fresh', async () => {
+    const first = getAll();
+    await settle();
+    httpMock.expectOne(URL).flush({ version: 'live' }, { headers: { ETag: '"v2"' } });
+    expect(await first).toEqual([{ version: 'live' }]);
+
+    const second = getAll();
+    await settle();
+    httpMock.expectNone(URL);
+    expect(await second).toEqual([{ version: 'live' }]);
+    expect(cache.entries.get(URL)?.etag).toBe('"v2"');
+  });
+
+  it('should revalidate an expired entry and reuse its body on 304', async () => {
+    storeEntry({});
+    const result = getAll();
+    await settle();
+
+    const req = httpMock.expectOne(URL);
+    expect(req.request.headers.get('If-None-Match')).toBe('"v1"');
+    req.flush(null, { status: 304, statusText: 'Not Modified' });
+
+    expect(await result).toEqual([{ version: 'cached' }]);
+    expect(cache.entries.get(URL)!.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  describe('with staleWhileRevalidate', () => {
+    const SWR_POLICY: HttpCachePolicy = { ttlMs: 60000, staleWhileRevalidate: true };
+
+    it('should emit the stale entry, then the changed response', async () => {
+      storeEntry({});
+      const result = getAll(SWR_POLICY);
+      await settle();
+
+      httpMock.expectOne(URL).flush({ version: 'live' });
+
+      expect(await result).toEqual([{ version: 'cached' }, { version: 'live' }]);
+    });
+
+    it('should emit only the stale entry when it is unchanged', async () => {
+      storeEntry({});
+      const result = getAll(SWR_POLICY);
+      await settle();
+
+      httpMock.expectOne(URL).flush(null, { status: 304, statusText: 'Not Modified' });
+
+      expect(await result).toEqual([{ version: 'cached' }]);
+    });
+
+    it('should keep the stale entry when revalidation fails', async () => {
+      storeEntry({});
+      const result = getAll(SWR_POLICY);
+      await settle();
+
+      httpMock.expectOne(URL).flush(null, { status: 503, statusText: 'Service Unavailable' });
+
+      expect(await result).toEqual([{ version: 'cached' }]);
+    });
+
+    it('should fail when the session ended', async () => {
+      storeEntry({});
+      const result = getAll(SWR_POLICY);
+      await settle();
+
+      httpMock.expectOne(URL).flush(null, { status: 401, statusText: 'Unauthorized' });
+
+      await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({ status: 401 }));
+    });
+  });
+});
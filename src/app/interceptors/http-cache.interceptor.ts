@@ -0,0 +1,120 @@
+import { inject } from '@angular/core';
+import {
+  HttpContext,
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandlerFn,
+  HttpHeaders,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { EMPTY, Observable, concat, from, of, throwError } from 'rxjs';
+import { catchError, switchMap, tap } from 'rxjs/operators';
+import { HTTP_CACHE_POLICY } from './http-context.tokens';
+import { HttpCacheService } from '../services/http-cache.service';
+import { LoggerService } from '../services/logger.service';
+import { HttpCacheEntry, HttpCachePolicy } from '../../types';
+
+/**
+ * Functional HTTP Interceptor caching GET responses that declare a policy
+ * (HTTP_CACHE_POLICY, see withCache())
+ * - Fresh entries are answered from the cache without a request
+ * - Expired entries are revalidated with If-None-Match; a 304 reuses the
+ *   cached body
+ * - With `staleWhileRevalidate` the expired entry is emitted first and the
+ *   revalidated response follows when it differs; a failed revalidation
+ *   then keeps the stale data instead of failing the request
+ *
+ * Registered before authInterceptor, so cache hits never wait for a token
+ * refresh.
+ */
+export function httpCacheInterceptor(
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn
+): Observable<HttpEvent<unknown>> {
+  const policy = req.context.get(HTTP_CACHE_POLICY);
+  if (req.method !== 'GET' || !policy) {
+    return next(req);
+  }
+
+  const cache = inject(HttpCacheService);
+  const logger = inject(LoggerService).scoped('HTTP CACHE');
+
+  return from(cache.get(req.urlWithParams)).pipe(
+    switchMap((entry) => {
+      if (!entry) {
+        return revalidate(req, next, cache, policy, null);
+      }
+
+      if (entry.expiresAt > Date.now()) {
+        return of(toResponse(entry));
+      }
+
+      if (!policy.staleWhileRevalidate) {
+        return revalidate(req, next, cache, policy, entry);
+      }
+
+      return concat(
+        of(toResponse(entry)),
+        revalidate(req, next, cache, policy, entry, { emitUnchanged: false }).pipe(
+          catchError((error: HttpErrorResponse) => {
+            // The session ended, let authInterceptor's handling surface it
+            if (error.status === 401) {
+              return throwError(() => error);
+            }
+            logger.warn(`Serving stale ${req.url}, revalidation failed`, error.message);
+            return EMPTY;
+          })
+        )
+      );
+    })
+  );
+}
+
+/**
+ * HttpContext declaring how a GET request may be cached
+ *
+ * `api.request('GET /dashboard', { context: withCache({ ttlMs: 300000, staleWhileRevalidate: true }) })`
+ */
+export function withCache(policy: HttpCachePolicy, context: HttpContext = new HttpContext()): HttpContext {
+  return context.set(HTTP_CACHE_POLICY, policy);
+}
+
+/**
+ * Send the request (conditionally when there is an ETag) and update the cache
+ */
+function revalidate(
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn,
+  cache: HttpCacheService,
+  policy: HttpCachePolicy,
+  entry: HttpCacheEntry | null,
+  { emitUnchanged = true } = {}
+): Observable<HttpEvent<unknown>> {
+  const conditionalReq = entry?.etag ? req.clone({ setHeaders: { 'If-None-Match': entry.etag } }) : req;
+
+  return next(conditionalReq).pipe(
+    tap((event) => {
+      if (event instanceof HttpResponse && event.status === 200) {
+        cache.save(req.urlWithParams, event, policy);
+      }
+    }),
+    catchError((error: unknown) => {
+      // Browsers hand a 304 for an explicit If-None-Match to the app, which sees it as an error
+      if (entry && error instanceof HttpErrorResponse && error.status === 304) {
+        const refreshed = cache.revalidated(entry, error.headers, policy);
+        return emitUnchanged ? of(toResponse(refreshed)) : EMPTY;
+      }
+      return throwError(() => error);
+    })
+  );
+}
+
+function toResponse(entry: HttpCacheEntry): HttpResponse<unknown> {
+  return new HttpResponse({
+    status: 200,
+    url: entry.url,
+    body: entry.body,
+    headers: entry.etag ? new HttpHeaders({ ETag: entry.etag }) : undefined,
+  });
+}
@@ -0,0 +1,29 @@
+import { HttpContextToken } from '@angular/common/http';
+import { HttpCachePolicy } from '../../types';
+
+/**
+ * Marks a request that must never trigger an access-token refresh.
+ * Used for the auth endpoints themselves (sign-in, sign-up, refresh), where a
+ * 401 means "bad credentials" rather than "expired session".
+ */
+export const SKIP_TOKEN_REFRESH = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Opts a request into Idempotency-Key handling (see idempotencyInterceptor).
+ * Use it for POSTs the API deduplicates by key, such as report generation,
+ * so a double submit or a retry after a timeout is not performed twice.
+ */
+export const IDEMPOTENT_REQUEST = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Cache policy of a GET request, null to always go to the network
+ * (see httpCacheInterceptor and withCache())
+ */
+export const HTTP_CACHE_POLICY = new HttpContextToken<HttpCachePolicy | null>(() => null);
+
+/**
+ * Group of GET requests where only the latest one matters, null for none
+ * (see inFlightInterceptor and withInFlightGroup()). A request with other
+ * query params, e.g. a new `since`, cancels the older one still in flight.
+ */
+export const IN_FLIGHT_GROUP = new HttpContextToken<string | null>(() => null);
@@ -0,0 +1,83 @@
+import { inject } from '@angular/core';
+import {
+  HttpContext,
+  HttpEvent,
+  HttpEventType,
+  HttpHandlerFn,
+  HttpRequest,
+} from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { IDEMPOTENT_REQUEST } from './http-context.tokens';
+import { IdempotencyKeysService } from '../services/idempotency-keys.service';
+import { LoggerService } from '../services/logger.service';
+import { normalizeApiError } from '../utils/api-error';
+import { hashString } from '../utils/hash';
+
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+const REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Functional HTTP Interceptor adding Idempotency-Key to opted-in requests
+ * (IDEMPOTENT_REQUEST, see withIdempotency())
+ * - The same request reuses its key across retries and page reloads
+ *   until it settles
+ * - The key is released on success and on errors a retry cannot fix;
+ *   network errors, timeouts, 429 and 5xx keep it for the next attempt
+ * - A response the API replays for a known key reaches the caller
+ *   exactly like a fresh one
+ *
+ * Registered first so every retry and token refresh inside the other
+ * interceptors sends the same key.
+ */
+export function idempotencyInterceptor(
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn
+): Observable<HttpEvent<unknown>> {
+  if (!req.context.get(IDEMPOTENT_REQUEST) || req.headers.has(IDEMPOTENCY_KEY_HEADER)) {
+    return next(req);
+  }
+
+  const keys = inject(IdempotencyKeysService);
+  const logger = inject(LoggerService).scoped('HTTP');
+  const fingerprint = fingerprintRequest(req);
+  const keyedReq = req.clone({
+    setHeaders: { [IDEMPOTENCY_KEY_HEADER]: keys.acquire(fingerprint) },
+  });
+
+  // A request cancelled before it settles (unsubscribed) keeps its key
+  return next(keyedReq).pipe(
+    tap({
+      next: (event) => {
+        if (event.type !== HttpEventType.Response) return;
+
+        if (event.headers.get(REPLAYED_HEADER) === 'true') {
+          logger.info(`${req.method} ${req.url} - Replayed response of an earlier attempt`);
+        }
+        keys.release(fingerprint);
+      },
+      error: (error: unknown) => {
+        if (!normalizeApiError(error).recoverable) {
+          keys.release(fingerprint);
+        }
+      },
+    })
+  );
+}
+
+/**
+ * HttpContext opting a request into Idempotency-Key handling
+ *
+ * `api.request('POST /reports/generate', { body, context: withIdempotency() })`
+ */
+export function withIdempotency(context: HttpContext = new HttpContext()): HttpContext {
+  return context.set(IDEMPOTENT_REQUEST, true);
+}
+
+/**
+ * Identify a user intent by method, URL with query and body.
+ * Hashed, so request bodies are not written to localStorage.
+ */
+function fingerprintRequest(req: HttpRequest<unknown>): string {
+  return hashString(`${req.method} ${req.urlWithParams} ${JSON.stringify(req.body ?? null)}`);
+}
@@ -0,0 +1,40 @@
+import { inject } from '@angular/core';
+import { HttpContext, HttpEvent, HttpHandlerFn, HttpRequest } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { IN_FLIGHT_GROUP } from './http-context.tokens';
+import { InFlightRequestsService } from '../services/in-flight-requests.service';
+
+/**
+ * Functional HTTP Interceptor collapsing duplicate GET requests
+ * - Identical requests (method, URL and query params) made while one is in
+ *   flight share its response instead of reaching the API again
+ * - Requests of an IN_FLIGHT_GROUP (see withInFlightGroup()) cancel the
+ *   group's older requests with other params, so a stale response never
+ *   lands after a newer one
+ *
+ * Registered before httpCacheInterceptor, so joined callers also share the
+ * cache lookup and its revalidation.
+ */
+export function inFlightInterceptor(
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn
+): Observable<HttpEvent<unknown>> {
+  if (req.method !== 'GET') {
+    return next(req);
+  }
+
+  return inject(InFlightRequestsService).join(
+    `${req.method} ${req.urlWithParams}`,
+    req.context.get(IN_FLIGHT_GROUP),
+    () => next(req)
+  );
+}
+
+/**
+ * HttpContext making a GET request supersede older ones of the same group
+ *
+ * `api.request('GET /dashboard', { query, context: withInFlightGroup('dashboard') })`
+ */
+export function withInFlightGroup(group: string, context: HttpContext = new HttpContext()): HttpContext {
+  return context.set(IN_FLIGHT_GROUP, group);
+}
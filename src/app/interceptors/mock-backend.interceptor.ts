@@ -0,0 +1,71 @@
+import { inject } from '@angular/core';
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpHandlerFn,
+  HttpHeaders,
+  HttpParams,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { Observable, throwError, timer } from 'rxjs';
+import { mergeMap } from 'rxjs/operators';
+import { API_CONFIG } from '../config/api.config';
+import { MockBackend } from '../mocks/mock-backend';
+
+// Simulated network latency, long enough for loading states to show
+const MOCK_LATENCY_MS = 250;
+
+/**
+ * Functional HTTP Interceptor serving the API from MockBackend
+ * - Part of the chain only in the mock environment (`httpInterceptors` in
+ *   environment.mock.ts), so other builds never include src/app/mocks/
+ * - Answers requests under `baseUrl`, anything else goes to the network
+ * - Failures arrive as HttpErrorResponse with an ErrorResponseDto body,
+ *   like the real API
+ *
+ * Registered after authInterceptor so requests carry the bearer token and
+ * refresh/timeout handling behaves as against the real backend.
+ */
+export function mockBackendInterceptor(
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn
+): Observable<HttpEvent<unknown>> {
+  const { baseUrl } = inject(API_CONFIG);
+
+  if (!req.url.startsWith(baseUrl)) {
+    return next(req);
+  }
+
+  const backend = inject(MockBackend);
+  const [path, search = ''] = req.url.slice(baseUrl.length).split('?');
+  const query = req.params
+    .keys()
+    .reduce(
+      (params, key) => params.appendAll({ [key]: req.params.getAll(key) ?? [] }),
+      new HttpParams({ fromString: search })
+    );
+
+  return timer(MOCK_LATENCY_MS).pipe(
+    mergeMap(() => {
+      const { status, body, headers: responseHeaders } = backend.handle({
+        method: req.method,
+        path,
+        query,
+        body: req.body,
+        authorization: req.headers.get('Authorization'),
+        idempotencyKey: req.headers.get('Idempotency-Key'),
+        ifNoneMatch: req.headers.get('If-None-Match'),
+      });
+      const headers = new HttpHeaders({ 'Content-Type': 'application/json', ...responseHeaders });
+
+      // Like HttpClient, anything outside 2xx (304 Not Modified included) is an error
+      if (status < 200 || status >= 300) {
+        return throwError(
+          () => new HttpErrorResponse({ status, error: body, headers, url: req.urlWithParams })
+        );
+      }
+      return [new HttpResponse({ status, body, headers, url: req.urlWithParams })];
+    })
+  );
+}
@@ -0,0 +1,1355 @@
+import { HttpParams } from '@angular/common/http';
+import { Injectable, inject } from '@angular/core';
+import { Constants } from '../../db/database.types';
+import {
+  AnalyticsEventDto,
+  DashboardDto,
+  DeliveryChannel,
+  ErrorResponseDto,
+  MeResponseDto,
+  MfaStatusDto,
+  NoteDto,
+  PaginatedResponse,
+  PreferencesDto,
+  ProfileDto,
+  ReportDeliveryDto,
+  ReportDto,
+  ReportFeedbackDto,
+  SignInResponseDto,
+  TotpEnrollmentDto,
+  UUID,
+} from '../../types';
+import { LoggerService } from '../services/logger.service';
+import { hashString } from '../utils/hash';
+import {
+  MOCK_TOTP_CODE,
+  MockDatabase,
+  MockEmailLink,
+  MockTotpFactor,
+  MockUser,
+  createMockDatabase,
+} from './mock-fixtures';
+
+// Request as seen by the mock backend, path relative to the API base URL
+export type MockRequest = {
+  method: string;
+  path: string;
+  query: HttpParams;
+  body: unknown;
+  authorization: string | null;
+  idempotencyKey: string | null;
+  ifNoneMatch: string | null;
+};
+
+export type MockResponse = {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+};
+
+type RouteContext = {
+  params: Record<string, string>;
+  query: HttpParams;
+  body: Record<string, unknown>;
+  userId: UUID; // Empty for public routes
+};
+
+type MockRoute = {
+  method: string;
+  segments: string[];
+  isPublic: boolean; // No bearer token required
+  idempotent: boolean; // Replays the first response for a repeated Idempotency-Key
+  handler: (context: RouteContext) => MockResponse;
+};
+
+/**
+ * Failure answered with the API's ErrorResponseDto body
+ */
+export class MockApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'MockApiError';
+  }
+
+  toResponse(): MockResponse {
+    const body: ErrorResponseDto = {
+      error: { code: this.code, message: this.message, details: this.details },
+    };
+    return { status: this.status, body };
+  }
+}
+
+const { delivery_channel_type } = Constants.public.Enums;
+
+const ACCESS_TOKEN_PREFIX = 'mock-access';
+const REFRESH_TOKEN_PREFIX = 'mock-refresh';
+const SESSION_TTL_SECONDS = 3600;
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const EMAIL_LINK_TTL_MS = 60 * 60 * 1000;
+const RECOVERY_CODE_COUNT = 10;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const MAX_ACTIVE_CATEGORIES = 3;
+const MAX_NOTE_LENGTH = 1000;
+const MAX_FEEDBACK_COMMENT_LENGTH = 300;
+const ON_DEMAND_REPORTS_PER_WEEK = 3;
+const FEEDBACK_RATINGS = [-1, 0, 1];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const DASHBOARD_DEFAULT_RANGE_DAYS = 28;
+const DASHBOARD_RECENT_REPORTS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DASHBOARD_MAX_AGE_S = 5 * 60;
+
+/**
+ * In-memory implementation of the `/api` surface from the API plan
+ *
+ * Serves mockBackendInterceptor, which only the mock environment registers.
+ * State starts from createMockDatabase() and lives until the page reloads.
+ * Access tokens carry the user id and expiry instead of a server-side
+ * session, so a stored session keeps working after a reload.
+ *
+ * The validation rules of the API plan are enforced with the same statuses:
+ * at most 3 active categories, `max_daily_notes` per category per local day,
+ * 3 on-demand reports per local week and feedback ratings in {-1, 0, 1}.
+ * Report generation and email delivery honor `Idempotency-Key`: a repeated
+ * key gets the first response again, marked with `Idempotent-Replayed`.
+ * GET responses carry an ETag of their body and answer 304 to a matching
+ * `If-None-Match`.
+ * Links the API would email (verification, password reset, email change)
+ * are logged to the console instead, and TOTP factors accept MOCK_TOTP_CODE
+ * in place of a code from an authenticator app.
+ */
+@Injectable({ providedIn: 'root' })
+export class MockBackend {
+  private readonly logger = inject(LoggerService).scoped('MockBackend');
+  private db: MockDatabase = createMockDatabase();
+  private nextAnalyticsEventId = 1;
+  private readonly idempotentResponses = new Map<string, MockResponse>();
+
+  private readonly routes: MockRoute[] = [
+    // Auth / Session
+    this.route('POST /sign-up', (context) => this.signUp(context), { isPublic: true }),
+    this.route('POST /sign-in', (context) => this.signIn(context), { isPublic: true }),
+    this.route('POST /sign-in/mfa', (context) => this.verifyMfaChallenge(context), { isPublic: true }),
+    this.route('POST /refresh', (context) => this.refresh(context), { isPublic: true }),
+    this.route('POST /sign-out', () => this.message('Sign out successful')),
+    this.route('GET /me', (context) => this.getMe(context)),
+    this.route('POST /verify-email', (context) => this.verifyEmail(context), { isPublic: true }),
+    this.route('POST /resend-verification', (context) => this.resendVerification(context), { isPublic: true }),
+    this.route('POST /forgot-password', (context) => this.forgotPassword(context), { isPublic: true }),
+    this.route('POST /reset-password/verify', (context) => this.verifyResetToken(context), { isPublic: true }),
+    this.route('POST /reset-password', (context) => this.resetPassword(context), { isPublic: true }),
+    this.route('POST /change-password', (context) => this.changePassword(context)),
+    this.route('POST /change-email', (context) => this.changeEmail(context)),
+    this.route('DELETE /account', (context) => this.deleteAccount(context)),
+
+    // Two-factor authentication
+    this.route('GET /mfa', (context) => this.getMfaStatus(context)),
+    this.route('POST /mfa/totp/enroll', (context) => this.enrollTotp(context)),
+    this.route('POST /mfa/totp/verify', (context) => this.verifyTotpEnrollment(context)),
+    this.route('DELETE /mfa/totp', (context) => this.disableTotp(context)),
+
+    // Profiles and preferences
+    this.route('GET /profile', (context) => this.ok(this.requireProfile(context.userId))),
+    this.route('PUT /profile', (context) => this.updateProfile(context)),
+    this.route('GET /preferences', (context) => this.ok(this.requirePreferences(context.userId))),
+    this.route('PUT /preferences', (context) => this.updatePreferences(context)),
+
+    // Categories (public)
+    this.route('GET /categories', (context) => this.listCategories(context), { isPublic: true }),
+
+    // Notes
+    this.route('GET /notes', (context) => this.listNotes(context)),
+    this.route('POST /notes', (context) => this.createNote(context)),
+    this.route('GET /notes/:id', (context) => this.ok(this.requireNote(context))),
+    this.route('PUT /notes/:id', (context) => this.updateNote(context)),
+    this.route('DELETE /notes/:id', (context) => this.deleteNote(context)),
+
+    // Dashboard
+    this.route('GET /dashboard', (context) => this.getDashboard(context)),
+
+    // Reports
+    this.route('GET /reports', (context) => this.listReports(context)),
+    this.route('POST /reports/generate', (context) => this.generateReport(context), { idempotent: true }),
+    this.route('GET /reports/:id', (context) => this.ok(this.requireReport(context.userId, context.params['id']))),
+    this.route('DELETE /reports/:id', (context) => this.deleteReport(context)),
+
+    // Report deliveries
+    this.route('GET /report-deliveries', (context) => this.listDeliveries(context)),
+    this.route('POST /reports/:id/deliveries/email', (context) => this.requestEmailDelivery(context), {
+      idempotent: true,
+    }),
+    this.route('POST /report-deliveries/:id/mark-opened', (context) => this.markDeliveryOpened(context)),
+
+    // Report feedback
+    this.route('POST /feedback', (context) => this.submitFeedback(context)),
+    this.route('GET /feedback/:report_id', (context) => this.getFeedback(context)),
+
+    // Analytics
+    this.route('POST /analytics/events', (context) => this.recordAnalyticsEvent(context)),
+    this.route('GET /analytics/events', (context) => this.listAnalyticsEvents(context)),
+  ];
+
+  /**
+   * Answer a request, failures included (as ErrorResponseDto bodies)
+   */
+  handle(request: MockRequest): MockResponse {
+    try {
+      return this.dispatch(request);
+    } catch (error) {
+      if (error instanceof MockApiError) {
+        return error.toResponse();
+      }
+      this.logger.error('Unhandled error', error);
+      return new MockApiError(500, 'internal_error', 'Mock backend failure').toResponse();
+    }
+  }
+
+  /**
+   * Restore the seeded data, e.g. between specs
+   */
+  reset(): void {
+    this.db = createMockDatabase();
+    this.nextAnalyticsEventId = 1;
+    this.idempotentResponses.clear();
+  }
+
+  private dispatch(request: MockRequest): MockResponse {
+    const segments = request.path.split('/').filter(Boolean);
+    const pathMatches = this.routes
+      .map((route) => ({ route, params: matchSegments(route.segments, segments) }))
+      .filter((match) => match.params !== null);
+
+    if (pathMatches.length === 0) {
+      throw new MockApiError(404, 'not_found', `No mock for ${request.method} /${segments.join('/')}`);
+    }
+
+    const match = pathMatches.find(({ route }) => route.method === request.method);
+    if (!match) {
+      throw new MockApiError(405, 'method_not_allowed', `${request.method} is not supported here`);
+    }
+
+    const userId = match.route.isPublic ? '' : this.authenticate(request.authorization);
+    const replayKey =
+      match.route.idempotent && request.idempotencyKey ? `${userId}:${request.idempotencyKey}` : null;
+
+    const replayed = replayKey ? this.idempotentResponses.get(replayKey) : undefined;
+    if (replayed) {
+      return { ...replayed, headers: { ...replayed.headers, 'Idempotent-Replayed': 'true' } };
+    }
+
+    const response = match.route.handler({
+      params: match.params ?? {},
+      query: request.query,
+      body: isRecord(request.body) ? request.body : {},
+      userId,
+    });
+
+    if (replayKey) {
+      this.idempotentResponses.set(replayKey, response);
+    }
+    return request.method === 'GET' ? withETag(response, request.ifNoneMatch) : response;
+  }
+
+  private route(
+    key: string,
+    handler: (context: RouteContext) => MockResponse,
+    { isPublic = false, idempotent = false } = {}
+  ): MockRoute {
+    const [method, path] = key.split(' ');
+    return { method, segments: path.split('/').filter(Boolean), isPublic, idempotent, handler };
+  }
+
+  private ok(body: unknown, status = 200): MockResponse {
+    return { status, body };
+  }
+
+  private noContent(): MockResponse {
+    return { status: 204, body: null };
+  }
+
+  private message(message: string): MockResponse {
+    return this.ok({ message });
+  }
+
+  // ==============
+  // Auth / Session
+  // ==============
+
+  private authenticate(authorization: string | null): UUID {
+    const token = authorization?.replace(/^Bearer\s+/i, '') ?? '';
+    const [prefix, userId, expiresAt] = token.split('.');
+
+    const user = this.db.users.find((candidate) => candidate.id === userId);
+    if (prefix !== ACCESS_TOKEN_PREFIX || !user || Number(expiresAt) < Date.now()) {
+      throw new MockApiError(401, 'unauthorized', 'Missing or invalid access token');
+    }
+
+    return user.id;
+  }
+
+  private createSession(user: MockUser): SignInResponseDto {
+    const expiresAt = Date.now() + SESSION_TTL_SECONDS * 1000;
+    return {
+      user: { id: user.id, email: user.email, email_confirmed_at: user.email_confirmed_at },
+      session: {
+        access_token: `${ACCESS_TOKEN_PREFIX}.${user.id}.${expiresAt}`,
+        refresh_token: `${REFRESH_TOKEN_PREFIX}.${user.id}.${createId()}`,
+        expires_in: SESSION_TTL_SECONDS,
+        token_type: 'bearer',
+      },
+    };
+  }
+
+  private signUp({ body }: RouteContext): MockResponse {
+    const email = readCredential(body, 'email').toLowerCase();
+    const password = readCredential(body, 'password');
+
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new MockApiError(400, 'invalid_email', 'Enter a valid email address', {
+        field: 'email',
+        reason: 'Enter a valid email address',
+      });
+    }
+    if (password.length < 6) {
+      throw new MockApiError(400, 'weak_password', 'Password must be at least 6 characters', {
+        field: 'password',
+        reason: 'Password must be at least 6 characters',
+      });
+    }
+    if (this.db.users.some((user) => user.email === email)) {
+      throw new MockApiError(409, 'email_exists', 'This email is already registered');
+    }
+
+    // There is no inbox to open a verification link from, so accounts start confirmed
+    const now = new Date().toISOString();
+    const user: MockUser = { id: createId(), email, password, email_confirmed_at: now, created_at: now, totp: null };
+    this.db.users.push(user);
+
+    return this.ok(this.createSession(user), 201);
+  }
+
+  private signIn({ body }: RouteContext): MockResponse {
+    const email = readCredential(body, 'email').toLowerCase();
+    const password = readCredential(body, 'password');
+
+    const user = this.db.users.find((candidate) => candidate.email === email);
+    if (!user || user.password !== password) {
+      throw new MockApiError(401, 'invalid_credentials', 'Invalid email or password');
+    }
+
+    if (user.totp?.verified) {
+      const mfaToken = createId();
+      this.db.mfaChallenges.push({
+        mfa_token: mfaToken,
+        user_id: user.id,
+        expires_at: Date.now() + MFA_CHALLENGE_TTL_MS,
+      });
+      throw new MockApiError(401, 'mfa_required', 'Two-factor authentication required', {
+        mfa_token: mfaToken,
+      });
+    }
+
+    return this.ok(this.createSession(user));
+  }
+
+  private verifyMfaChallenge({ body }: RouteContext): MockResponse {
+    const challenge = this.db.mfaChallenges.find((candidate) => candidate.mfa_token === body['mfa_token']);
+    if (!challenge || challenge.expires_at < Date.now()) {
+      throw new MockApiError(410, 'mfa_token_expired', 'Sign-in attempt expired, sign in again');
+    }
+
+    const user = this.requireUser(challenge.user_id);
+    if (!user.totp?.verified) {
+      throw new MockApiError(410, 'mfa_token_expired', 'Sign-in attempt expired, sign in again');
+    }
+
+    useSecondFactor(user.totp, body['code'] ?? body['recovery_code']);
+    this.db.mfaChallenges = this.db.mfaChallenges.filter((candidate) => candidate !== challenge);
+    return this.ok(this.createSession(user));
+  }
+
+  private refresh({ body }: RouteContext): MockResponse {
+    const [prefix, userId] = String(body['refresh_token'] ?? '').split('.');
+    const user = this.db.users.find((candidate) => candidate.id === userId);
+
+    if (prefix !== REFRESH_TOKEN_PREFIX || !user) {
+      throw new MockApiError(401, 'invalid_refresh_token', 'Session expired');
+    }
+
+    return this.ok(this.createSession(user));
+  }
+
+  private getMe({ userId }: RouteContext): MockResponse {
+    const user = this.requireUser(userId);
+    const me: MeResponseDto = {
+      userId: user.id,
+      email: user.email,
+      emailVerified: user.email_confirmed_at !== null,
+      hasProfile: this.db.profiles.some((profile) => profile.user_id === userId),
+      hasPreferences: this.db.preferences.some((preferences) => preferences.user_id === userId),
+    };
+    return this.ok(me);
+  }
+
+  private changePassword({ userId, body }: RouteContext): MockResponse {
+    const user = this.requireUser(userId);
+    if (body['current_password'] !== user.password) {
+      throw new MockApiError(400, 'invalid_password', 'Current password is incorrect', {
+        field: 'current_password',
+        reason: 'Current password is incorrect',
+      });
+    }
+
+    const newPassword = readCredential(body, 'new_password');
+    if (newPassword.length < 6) {
+      throw new MockApiError(400, 'weak_password', 'Password must be at least 6 characters', {
+        field: 'new_password',
+        reason: 'Password must be at least 6 characters',
+      });
+    }
+
+    user.password = newPassword;
+    return this.message('Password changed');
+  }
+
+  private deleteAccount({ userId, body }: RouteContext): MockResponse {
+    const user = this.requireUser(userId);
+    if (body['password'] !== user.password) {
+      throw new MockApiError(400, 'invalid_password', 'Password is incorrect', {
+        field: 'password',
+        reason: 'Password is incorrect',
+      });
+    }
+
+    const db = this.db;
+    const ownedBy = <T extends { user_id: UUID }>(rows: T[]): T[] => rows.filter((row) => row.user_id !== userId);
+    db.users = db.users.filter((candidate) => candidate.id !== userId);
+    db.profiles = ownedBy(db.profiles);
+    db.preferences = ownedBy(db.preferences);
+    db.notes = ownedBy(db.notes);
+    db.reports = ownedBy(db.reports);
+    db.deliveries = ownedBy(db.deliveries);
+    db.feedback = ownedBy(db.feedback);
+    db.analyticsEvents = ownedBy(db.analyticsEvents);
+    db.mfaChallenges = ownedBy(db.mfaChallenges);
+    db.emailLinks = ownedBy(db.emailLinks);
+
+    return this.message('Account deleted');
+  }
+
+  private requireUser(userId: UUID): MockUser {
+    const user = this.db.users.find((candidate) => candidate.id === userId);
+    if (!user) {
+      throw new MockApiError(401, 'unauthorized', 'Account no longer exists');
+    }
+    return user;
+  }
+
+  // =============
+  // Emailed links
+  // =============
+
+  /**
+   * Store a single-use link token; there is no inbox, so the link is logged
+   */
+  private sendEmailLink(user: MockUser, type: MockEmailLink['type'], newEmail: string | null = null): void {
+    const link: MockEmailLink = {
+      token: createId().replace(/-/g, ''),
+      type,
+      user_id: user.id,
+      new_email: newEmail,
+      expires_at: Date.now() + EMAIL_LINK_TTL_MS,
+      used: false,
+    };
+    this.db.emailLinks.push(link);
+    this.logger.info(`Emailed link: /auth/callback?token_hash=${link.token}&type=${type}`);
+  }
+
+  private findEmailLink(token: unknown, type: unknown): MockEmailLink | undefined {
+    return this.db.emailLinks.find((link) => link.token === token && link.type === type);
+  }
+
+  private verifyEmail({ body }: RouteContext): MockResponse {
+    const link = this.findEmailLink(body['token_hash'], body['type']);
+    if (!link || link.type === 'recovery' || link.used) {
+      throw new MockApiError(400, 'otp_invalid', 'Verification link is invalid or has already been used');
+    }
+    if (link.expires_at < Date.now()) {
+      throw new MockApiError(410, 'otp_expired', 'Verification link has expired');
+    }
+
+    const user = this.requireUser(link.user_id);
+    if (link.new_email) {
+      if (this.db.users.some((candidate) => candidate.email === link.new_email)) {
+        throw new MockApiError(409, 'email_exists', 'This email is already registered');
+      }
+      user.email = link.new_email;
+    }
+    user.email_confirmed_at ??= new Date().toISOString();
+    link.used = true;
+
+    return this.ok(this.createSession(user));
+  }
+
+  private resendVerification({ body }: RouteContext): MockResponse {
+    const email = readCredential(body, 'email').toLowerCase();
+    const user = this.db.users.find((candidate) => candidate.email === email);
+    if (user && !user.email_confirmed_at) {
+      this.sendEmailLink(user, 'signup');
+    }
+    return this.message('Verification email sent');
+  }
+
+  private forgotPassword({ body }: RouteContext): MockResponse {
+    const email = readCredential(body, 'email').toLowerCase();
+    const user = this.db.users.find((candidate) => candidate.email === email);
+    if (user) {
+      this.sendEmailLink(user, 'recovery');
+    }
+    return this.message('If the account exists, a reset link was sent');
+  }
+
+  private requireResetLink(token: unknown): MockEmailLink {
+    const link = this.findEmailLink(token, 'recovery');
+    if (!link) {
+      throw new MockApiError(404, 'reset_token_invalid', 'Reset link is invalid');
+    }
+    if (link.used) {
+      throw new MockApiError(409, 'reset_token_used', 'Reset link has already been used');
+    }
+    if (link.expires_at < Date.now()) {
+      throw new MockApiError(410, 'reset_token_expired', 'Reset link has expired');
+    }
+    return link;
+  }
+
+  private verifyResetToken({ body }: RouteContext): MockResponse {
+    this.requireResetLink(body['token']);
+    return this.message('Reset link is valid');
+  }
+
+  private resetPassword({ body }: RouteContext): MockResponse {
+    const link = this.requireResetLink(body['token']);
+    const password = readCredential(body, 'password');
+    if (password.length < 6) {
+      throw new MockApiError(422, 'weak_password', 'Password must be at least 6 characters', {
+        field: 'password',
+        reason: 'Password must be at least 6 characters',
+      });
+    }
+
+    this.requireUser(link.user_id).password = password;
+    link.used = true;
+    return this.message('Password has been reset');
+  }
+
+  private changeEmail({ userId, body }: RouteContext): MockResponse {
+    const user = this.requireUser(userId);
+    if (body['password'] !== user.password) {
+      throw new MockApiError(401, 'invalid_credentials', 'Password is incorrect');
+    }
+
+    const newEmail = readCredential(body, 'new_email').toLowerCase();
+    if (!EMAIL_PATTERN.test(newEmail)) {
+      throw new MockApiError(400, 'invalid_email', 'Enter a valid email address', {
+        field: 'new_email',
+        reason: 'Enter a valid email address',
+      });
+    }
+    if (this.db.users.some((candidate) => candidate.email === newEmail)) {
+      throw new MockApiError(409, 'email_exists', 'This email is already registered');
+    }
+
+    this.sendEmailLink(user, 'email_change', newEmail);
+    return this.message('Confirmation link sent to the new address');
+  }
+
+  // =========================
+  // Two-factor authentication
+  // =========================
+
+  private getMfaStatus({ userId }: RouteContext): MockResponse {
+    const factor = this.requireUser(userId).totp;
+    const status: MfaStatusDto = {
+      totp_enabled: !!factor?.verified,
+      recovery_codes_remaining: factor?.verified ? factor.recovery_codes.length : 0,
+    };
+    return this.ok(status);
+  }
+
+  private enrollTotp({ userId }: RouteContext): MockResponse {
+    const user = this.requireUser(userId);
+    if (user.totp?.verified) {
+      throw new MockApiError(409, 'mfa_already_enabled', 'Two-factor authentication is already enabled');
+    }
+
+    const factor: MockTotpFactor = {
+      factor_id: createId(),
+      secret: createTotpSecret(),
+      verified: false,
+      recovery_codes: [],
+    };
+    user.totp = factor;
+
+    const otpauthUri = `otpauth://totp/LifeSync:${encodeURIComponent(user.email)}?secret=${factor.secret}&issuer=LifeSync`;
+    const enrollment: TotpEnrollmentDto = {
+      factor_id: factor.factor_id,
+      otpauth_uri: otpauthUri,
+      qr_code: createPlaceholderQrCode(),
+      secret: factor.secret,
+    };
+    return this.ok(enrollment);
+  }
+
+  private verifyTotpEnrollment({ userId, body }: RouteContext): MockResponse {
+    const factor = this.requireUser(userId).totp;
+    if (!factor || factor.verified || factor.factor_id !== body['factor_id']) {
+      throw new MockApiError(404, 'factor_not_found', 'No pending authenticator enrollment');
+    }
+    if (body['code'] !== MOCK_TOTP_CODE) {
+      throw new MockApiError(400, 'mfa_code_invalid', 'Invalid code', { field: 'code', reason: 'Invalid code' });
+    }
+
+    factor.verified = true;
+    factor.recovery_codes = Array.from({ length: RECOVERY_CODE_COUNT }, createRecoveryCode);
+    return this.ok({ recovery_codes: [...factor.recovery_codes] });
+  }
+
+  private disableTotp({ userId, body }: RouteContext): MockResponse {
+    const user = this.requireUser(userId);
+    if (!user.totp?.verified) {
+      throw new MockApiError(404, 'mfa_not_enabled', 'Two-factor authentication is not enabled');
+    }
+
+    useSecondFactor(user.totp, body['code']);
+    user.totp = null;
+    return this.message('Two-factor authentication disabled');
+  }
+
+  // ===========================
+  // Profiles and preferences
+  // ===========================
+
+  private requireProfile(userId: UUID): ProfileDto {
+    const profile = this.db.profiles.find((candidate) => candidate.user_id === userId);
+    if (!profile) {
+      throw new MockApiError(404, 'profile_not_found', 'Profile has not been created yet');
+    }
+    return profile;
+  }
+
+  private requirePreferences(userId: UUID): PreferencesDto {
+    const preferences = this.db.preferences.find((candidate) => candidate.user_id === userId);
+    if (!preferences) {
+      throw new MockApiError(404, 'preferences_not_found', 'Preferences have not been set yet');
+    }
+    return preferences;
+  }
+
+  private getTimezone(userId: UUID, override?: string | null): string {
+    if (override && isValidTimezone(override)) {
+      return override;
+    }
+    return this.db.profiles.find((profile) => profile.user_id === userId)?.timezone ?? 'UTC';
+  }
+
+  private updateProfile({ userId, body }: RouteContext): MockResponse {
+    const timezone = body['timezone'];
+    if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+      throw new MockApiError(400, 'invalid_timezone', 'Timezone must be a valid IANA timezone', {
+        field: 'timezone',
+        reason: 'Must be a valid IANA timezone, e.g. Europe/Warsaw',
+      });
+    }
+
+    const now = new Date().toISOString();
+    const existing = this.db.profiles.find((profile) => profile.user_id === userId);
+    if (existing) {
+      Object.assign(existing, { timezone, updated_at: now });
+      return this.ok(existing);
+    }
+
+    const profile: ProfileDto = { user_id: userId, timezone, created_at: now, updated_at: now };
+    this.db.profiles.push(profile);
+    return this.ok(profile);
+  }
+
+  private updatePreferences({ userId, body }: RouteContext): MockResponse {
+    const fields: Record<string, string> = {};
+    const {
+      active_categories,
+      preferred_delivery_channels,
+      report_dow,
+      report_hour,
+      max_daily_notes,
+      email_unsubscribed_at,
+    } = body;
+
+    if (!isStringArray(active_categories)) {
+      fields['active_categories'] = 'Must be a list of category ids';
+    } else if (active_categories.length > MAX_ACTIVE_CATEGORIES) {
+      fields['active_categories'] = `Choose at most ${MAX_ACTIVE_CATEGORIES} categories`;
+    } else if (new Set(active_categories).size !== active_categories.length) {
+      fields['active_categories'] = 'Categories must not repeat';
+    } else if (!active_categories.every((id) => this.db.categories.some((category) => category.id === id))) {
+      fields['active_categories'] = 'Unknown category';
+    }
+
+    if (
+      !isStringArray(preferred_delivery_channels) ||
+      !preferred_delivery_channels.every((channel) => delivery_channel_type.includes(channel as DeliveryChannel))
+    ) {
+      fields['preferred_delivery_channels'] = `Must be a subset of ${delivery_channel_type.join(', ')}`;
+    }
+    if (!isIntegerInRange(report_dow, 0, 6)) {
+      fields['report_dow'] = 'Must be a whole number from 0 to 6';
+    }
+    if (!isIntegerInRange(report_hour, 0, 23)) {
+      fields['report_hour'] = 'Must be a whole number from 0 to 23';
+    }
+    if (!isIntegerInRange(max_daily_notes, 1, 10)) {
+      fields['max_daily_notes'] = 'Must be a whole number from 1 to 10';
+    }
+    if (email_unsubscribed_at !== null && typeof email_unsubscribed_at !== 'string') {
+      fields['email_unsubscribed_at'] = 'Must be a timestamp or null';
+    }
+
+    if (Object.keys(fields).length > 0) {
+      throw new MockApiError(422, 'validation_failed', 'Preferences are invalid', { fields });
+    }
+
+    const now = new Date().toISOString();
+    const update = {
+      active_categories: active_categories as UUID[],
+      preferred_delivery_channels: preferred_delivery_channels as DeliveryChannel[],
+      report_dow: report_dow as number,
+      report_hour: report_hour as number,
+      max_daily_notes: max_daily_notes as number,
+      email_unsubscribed_at: email_unsubscribed_at as string | null,
+      updated_at: now,
+    };
+
+    const existing = this.db.preferences.find((preferences) => preferences.user_id === userId);
+    if (existing) {
+      Object.assign(existing, update);
+      return this.ok(existing);
+    }
+
+    const preferences: PreferencesDto = { user_id: userId, created_at: now, ...update };
+    this.db.preferences.push(preferences);
+    return this.ok(preferences);
+  }
+
+  // ==========
+  // Categories
+  // ==========
+
+  private listCategories({ query }: RouteContext): MockResponse {
+    const active = query.get('active') !== 'false';
+    const direction = query.get('sort') === 'name_desc' ? -1 : 1;
+
+    const categories = this.db.categories
+      .filter((category) => category.active === active)
+      .sort((a, b) => direction * a.name.localeCompare(b.name));
+
+    return this.ok(paginate(categories, query));
+  }
+
+  // =====
+  // Notes
+  // =====
+
+  private listNotes({ userId, query }: RouteContext): MockResponse {
+    const categoryIds = query.getAll('category_id')?.flatMap((value) => value.split(',')) ?? [];
+    const from = query.get('from');
+    const to = query.get('to');
+    const includeDeleted = query.get('include_deleted') === 'true';
+    const sort = query.get('sort') ?? 'created_at_desc';
+
+    const notes = this.db.notes
+      .filter((note) => note.user_id === userId)
+      .filter((note) => includeDeleted || note.deleted_at === null)
+      .filter((note) => categoryIds.length === 0 || categoryIds.includes(note.category_id))
+      .filter((note) => !from || note.created_at >= new Date(from).toISOString())
+      .filter((note) => !to || note.created_at <= new Date(to).toISOString())
+      .sort((a, b) => {
+        if (sort === 'created_at_asc') return a.created_at.localeCompare(b.created_at);
+        if (sort === 'updated_at_desc') return b.updated_at.localeCompare(a.updated_at);
+        return b.created_at.localeCompare(a.created_at);
+      });
+
+    return this.ok(paginate(notes, query));
+  }
+
+  private createNote({ userId, body }: RouteContext): MockResponse {
+    const { category_id, title, content } = this.validateNote(body);
+    this.assertActiveCategory(userId, category_id);
+
+    const { max_daily_notes } = this.requirePreferences(userId);
+    const timezone = this.getTimezone(userId);
+    const today = toLocalDate(new Date().toISOString(), timezone);
+    const notesToday = this.db.notes.filter(
+      (note) =>
+        note.user_id === userId &&
+        note.category_id === category_id &&
+        note.deleted_at === null &&
+        toLocalDate(note.created_at, timezone) === today
+    ).length;
+
+    if (notesToday >= max_daily_notes) {
+      throw new MockApiError(409, 'daily_limit_reached', `Daily limit of ${max_daily_notes} notes reached for this category`, {
+        limit: max_daily_notes,
+      });
+    }
+
+    const now = new Date().toISOString();
+    const note: NoteDto = {
+      id: createId(),
+      user_id: userId,
+      category_id,
+      title,
+      content,
+      created_at: now,
+      updated_at: now,
+      deleted_at: null,
+    };
+    this.db.notes.push(note);
+
+    return this.ok(note, 201);
+  }
+
+  private updateNote(context: RouteContext): MockResponse {
+    const note = this.requireNote(context);
+    const { category_id, title, content } = this.validateNote(context.body);
+
+    if (category_id !== note.category_id) {
+      this.assertActiveCategory(context.userId, category_id);
+    }
+
+    Object.assign(note, { category_id, title, content, updated_at: new Date().toISOString() });
+    return this.ok(note);
+  }
+
+  private deleteNote(context: RouteContext): MockResponse {
+    const note = this.requireNote(context);
+    note.deleted_at = new Date().toISOString();
+    return this.noContent();
+  }
+
+  private requireNote({ userId, params }: RouteContext): NoteDto {
+    const note = this.db.notes.find(
+      (candidate) => candidate.id === params['id'] && candidate.user_id === userId && candidate.deleted_at === null
+    );
+    if (!note) {
+      throw new MockApiError(404, 'note_not_found', 'Note not found');
+    }
+    return note;
+  }
+
+  private validateNote(body: Record<string, unknown>): Pick<NoteDto, 'category_id' | 'title' | 'content'> {
+    const { category_id, title = null, content } = body;
+
+    if (typeof category_id !== 'string' || typeof content !== 'string' || !content.trim()) {
+      throw new MockApiError(400, 'invalid_payload', 'category_id and content are required');
+    }
+    if (title !== null && typeof title !== 'string') {
+      throw new MockApiError(400, 'invalid_payload', 'title must be a string or null');
+    }
+    if (content.length > MAX_NOTE_LENGTH) {
+      throw new MockApiError(422, 'validation_failed', 'Note is too long', {
+        field: 'content',
+        reason: `Must be at most ${MAX_NOTE_LENGTH} characters`,
+      });
+    }
+
+    return { category_id, title, content };
+  }
+
+  private assertActiveCategory(userId: UUID, categoryId: UUID): void {
+    const activeCategories = this.db.preferences.find((preferences) => preferences.user_id === userId)
+      ?.active_categories;
+
+    if (!activeCategories?.includes(categoryId)) {
+      throw new MockApiError(403, 'category_not_active', 'Category is not active in your preferences');
+    }
+  }
+
+  // =========
+  // Dashboard
+  // =========
+
+  private getDashboard({ userId, query }: RouteContext): MockResponse {
+    const { active_categories } = this.requirePreferences(userId);
+    const timezone = this.getTimezone(userId, query.get('timezone'));
+    const sinceParam = query.get('since');
+    const since = sinceParam
+      ? new Date(sinceParam).toISOString()
+      : new Date(Date.now() - DASHBOARD_DEFAULT_RANGE_DAYS * DAY_MS).toISOString();
+
+    const notes = this.db.notes.filter((note) => note.user_id === userId && note.deleted_at === null);
+
+    const notesCount: Record<UUID, number> = Object.fromEntries(active_categories.map((id) => [id, 0]));
+    notes
+      .filter((note) => note.created_at >= since && note.category_id in notesCount)
+      .forEach((note) => notesCount[note.category_id]++);
+
+    const recentReports = this.db.reports
+      .filter((report) => report.user_id === userId && report.deleted_at === null)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, DASHBOARD_RECENT_REPORTS)
+      .map(({ id, generated_by, created_at }) => ({ id, generated_by, created_at }));
+
+    const dashboard: DashboardDto = {
+      summary: {
+        active_categories,
+        notes_count: notesCount,
+        streak_days: countStreakDays(notes, timezone),
+      },
+      recent_reports: recentReports,
+    };
+    return { ...this.ok(dashboard), headers: { 'Cache-Control': `private, max-age=${DASHBOARD_MAX_AGE_S}` } };
+  }
+
+  // =======
+  // Reports
+  // =======
+
+  private listReports({ userId, query }: RouteContext): MockResponse {
+    const weekStart = query.get('week_start_local');
+    const generatedBy = query.get('generated_by');
+    const includeDeleted = query.get('include_deleted') === 'true';
+    const direction = query.get('sort') === 'created_at_asc' ? 1 : -1;
+    const timezone = this.getTimezone(userId);
+
+    const reports = this.db.reports
+      .filter((report) => report.user_id === userId)
+      .filter((report) => includeDeleted || report.deleted_at === null)
+      .filter((report) => !generatedBy || report.generated_by === generatedBy)
+      .filter((report) => !weekStart || toLocalWeekStart(report.created_at, timezone) === weekStart)
+      .sort((a, b) => direction * a.created_at.localeCompare(b.created_at));
+
+    return this.ok(paginate(reports, query));
+  }
+
+  private generateReport({ userId, body }: RouteContext): MockResponse {
+    const { active_categories } = this.requirePreferences(userId);
+    const includeCategories = body['include_categories'];
+
+    if (
+      !isStringArray(includeCategories) ||
+      includeCategories.length === 0 ||
+      !includeCategories.every((id) => active_categories.includes(id))
+    ) {
+      throw new MockApiError(400, 'invalid_categories', 'Choose one or more of your active categories', {
+        field: 'include_categories',
+        reason: 'Must be a non-empty subset of your active categories',
+      });
+    }
+
+    // Soft-deleted reports count towards the limit as well
+    const timezone = this.getTimezone(userId);
+    const now = new Date().toISOString();
+    const thisWeek = toLocalWeekStart(now, timezone);
+    const onDemandThisWeek = this.db.reports.filter(
+      (report) =>
+        report.user_id === userId &&
+        report.generated_by === 'on_demand' &&
+        toLocalWeekStart(report.created_at, timezone) === thisWeek
+    ).length;
+
+    if (onDemandThisWeek >= ON_DEMAND_REPORTS_PER_WEEK) {
+      throw new MockApiError(409, 'weekly_limit_reached', `You can generate ${ON_DEMAND_REPORTS_PER_WEEK} reports per week`, {
+        limit: ON_DEMAND_REPORTS_PER_WEEK,
+        week_start_local: thisWeek,
+      });
+    }
+
+    const categories = this.db.categories.filter((category) => includeCategories.includes(category.id));
+    const noteCounts = categories.map((category) => ({
+      name: category.name,
+      count: this.db.notes.filter(
+        (note) =>
+          note.user_id === userId &&
+          note.category_id === category.id &&
+          note.deleted_at === null &&
+          toLocalWeekStart(note.created_at, timezone) === thisWeek
+      ).length,
+    }));
+
+    const summary = noteCounts.map(({ name, count }) => `${name}: ${count} notes`).join(', ');
+    const report: ReportDto = {
+      id: createId(),
+      user_id: userId,
+      generated_by: 'on_demand',
+      html: `<h1>Your week so far</h1><ul>${noteCounts
+        .map(({ name, count }) => `<li>${name}: ${count} notes</li>`)
+        .join('')}</ul>`,
+      text_version: `Your week so far: ${summary}`,
+      pdf_path: null,
+      llm_model: 'mock',
+      system_prompt_version: 'v1',
+      categories_snapshot: categories.map(({ id, name }) => ({ id, name })),
+      created_at: now,
+      updated_at: now,
+      deleted_at: null,
+    };
+    this.db.reports.push(report);
+
+    // Every new report is delivered in the app right away
+    this.db.deliveries.push({
+      id: createId(),
+      report_id: report.id,
+      user_id: userId,
+      channel: 'in_app',
+      status: 'sent',
+      queued_at: now,
+      sent_at: now,
+      opened_at: null,
+      created_at: now,
+      updated_at: now,
+    });
+
+    return this.ok(report, 201);
+  }
+
+  private deleteReport({ userId, params }: RouteContext): MockResponse {
+    const report = this.requireReport(userId, params['id']);
+    report.deleted_at = new Date().toISOString();
+    return this.noContent();
+  }
+
+  private requireReport(userId: UUID, reportId: UUID | undefined): ReportDto {
+    const report = this.db.reports.find(
+      (candidate) => candidate.id === reportId && candidate.user_id === userId && candidate.deleted_at === null
+    );
+    if (!report) {
+      throw new MockApiError(404, 'report_not_found', 'Report not found');
+    }
+    return report;
+  }
+
+  // =================
+  // Report Deliveries
+  // =================
+
+  private listDeliveries({ userId, query }: RouteContext): MockResponse {
+    const reportId = query.get('report_id');
+    const channel = query.get('channel');
+    const status = query.get('status');
+
+    const deliveries = this.db.deliveries
+      .filter((delivery) => delivery.user_id === userId)
+      .filter((delivery) => !reportId || delivery.report_id === reportId)
+      .filter((delivery) => !channel || delivery.channel === channel)
+      .filter((delivery) => !status || delivery.status === status)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    return this.ok(paginate(deliveries, query));
+  }
+
+  private requestEmailDelivery({ userId, params }: RouteContext): MockResponse {
+    const report = this.requireReport(userId, params['id']);
+    const preferences = this.requirePreferences(userId);
+
+    if (preferences.email_unsubscribed_at) {
+      throw new MockApiError(400, 'email_unsubscribed', 'You have unsubscribed from report emails');
+    }
+    if (!preferences.preferred_delivery_channels.includes('email')) {
+      throw new MockApiError(403, 'email_not_enabled', 'Email is not one of your delivery channels');
+    }
+    if (this.db.deliveries.some((delivery) => delivery.report_id === report.id && delivery.channel === 'email')) {
+      throw new MockApiError(409, 'delivery_exists', 'This report has already been sent by email');
+    }
+
+    const now = new Date().toISOString();
+    const delivery: ReportDeliveryDto = {
+      id: createId(),
+      report_id: report.id,
+      user_id: userId,
+      channel: 'email',
+      status: 'queued',
+      queued_at: now,
+      sent_at: null,
+      opened_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+    this.db.deliveries.push(delivery);
+
+    const { id, status, channel } = delivery;
+    return this.ok({ delivery: { id, status, channel } }, 202);
+  }
+
+  private markDeliveryOpened({ userId, params }: RouteContext): MockResponse {
+    const delivery = this.db.deliveries.find(
+      (candidate) => candidate.id === params['id'] && candidate.user_id === userId
+    );
+    if (!delivery) {
+      throw new MockApiError(404, 'delivery_not_found', 'Delivery not found');
+    }
+
+    const now = new Date().toISOString();
+    Object.assign(delivery, { status: 'opened', opened_at: delivery.opened_at ?? now, updated_at: now });
+    return this.noContent();
+  }
+
+  // ===============
+  // Report Feedback
+  // ===============
+
+  private submitFeedback({ userId, query, body }: RouteContext): MockResponse {
+    const { report_id, rating, comment = null } = body;
+
+    if (typeof report_id !== 'string') {
+      throw new MockApiError(400, 'invalid_payload', 'report_id is required');
+    }
+    if (typeof rating !== 'number' || !FEEDBACK_RATINGS.includes(rating)) {
+      throw new MockApiError(400, 'invalid_rating', 'Rating must be -1, 0 or 1', {
+        field: 'rating',
+        reason: 'Must be -1, 0 or 1',
+      });
+    }
+    if (comment !== null && (typeof comment !== 'string' || comment.length > MAX_FEEDBACK_COMMENT_LENGTH)) {
+      throw new MockApiError(422, 'validation_failed', 'Comment is too long', {
+        field: 'comment',
+        reason: `Must be at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters`,
+      });
+    }
+
+    this.requireReport(userId, report_id);
+
+    const now = new Date().toISOString();
+    const existing = this.db.feedback.find(
+      (feedback) => feedback.report_id === report_id && feedback.user_id === userId
+    );
+
+    if (existing) {
+      if (query.get('upsert') !== 'true') {
+        throw new MockApiError(409, 'feedback_exists', 'Feedback for this report already exists');
+      }
+      Object.assign(existing, { rating, comment, updated_at: now });
+      return this.ok(existing);
+    }
+
+    const feedback: ReportFeedbackDto = {
+      id: createId(),
+      report_id,
+      user_id: userId,
+      rating,
+      comment,
+      created_at: now,
+      updated_at: now,
+    };
+    this.db.feedback.push(feedback);
+    return this.ok(feedback, 201);
+  }
+
+  private getFeedback({ userId, params }: RouteContext): MockResponse {
+    const feedback = this.db.feedback.find(
+      (candidate) => candidate.report_id === params['report_id'] && candidate.user_id === userId
+    );
+    if (!feedback) {
+      throw new MockApiError(404, 'feedback_not_found', 'No feedback for this report');
+    }
+    return this.ok(feedback);
+  }
+
+  // =========
+  // Analytics
+  // =========
+
+  private recordAnalyticsEvent({ userId, body }: RouteContext): MockResponse {
+    const { event_name, source, schema_version = 1, properties = {} } = body;
+
+    if (
+      typeof event_name !== 'string' ||
+      !event_name ||
+      (source !== 'web' && source !== 'api') ||
+      typeof schema_version !== 'number'
+    ) {
+      throw new MockApiError(400, 'invalid_payload', 'event_name, source (web or api) and schema_version are required');
+    }
+
+    const event: AnalyticsEventDto = {
+      id: this.nextAnalyticsEventId++,
+      user_id: userId,
+      event_name,
+      source,
+      schema_version,
+      properties: properties as AnalyticsEventDto['properties'],
+      created_at: new Date().toISOString(),
+    };
+    this.db.analyticsEvents.push(event);
+
+    return this.ok({ id: event.id }, 201);
+  }
+
+  private listAnalyticsEvents({ userId, query }: RouteContext): MockResponse {
+    const eventName = query.get('event_name');
+    const from = query.get('from');
+    const to = query.get('to');
+
+    const events = this.db.analyticsEvents
+      .filter((event) => event.user_id === userId)
+      .filter((event) => !eventName || event.event_name === eventName)
+      .filter((event) => !from || event.created_at >= new Date(from).toISOString())
+      .filter((event) => !to || event.created_at <= new Date(to).toISOString())
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    return this.ok(paginate(events, query));
+  }
+}
+
+// =======
+// Helpers
+// =======
+
+function matchSegments(pattern: string[], segments: string[]): Record<string, string> | null {
+  if (pattern.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < pattern.length; index++) {
+    if (pattern[index].startsWith(':')) {
+      params[pattern[index].slice(1)] = decodeURIComponent(segments[index]);
+    } else if (pattern[index] !== segments[index]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function paginate<T>(items: T[], query: HttpParams): PaginatedResponse<T> {
+  const limit = Math.min(Math.max(Number(query.get('limit')) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const offset = Math.max(Number(query.get('offset')) || 0, 0);
+  return { items: items.slice(offset, offset + limit), total: items.length, limit, offset };
+}
+
+function readCredential(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || !value) {
+    throw new MockApiError(400, 'invalid_payload', `${field} is required`, {
+      field,
+      reason: 'Required',
+    });
+  }
+  return value;
+}
+
+// Tag derived from the serialized body, so unchanged data keeps its ETag
+function withETag(response: MockResponse, ifNoneMatch: string | null): MockResponse {
+  if (response.status !== 200) return response;
+
+  const etag = `"${hashString(JSON.stringify(response.body))}"`;
+  const headers = { ...response.headers, ETag: etag };
+  return ifNoneMatch === etag ? { status: 304, body: null, headers } : { ...response, headers };
+}
+
+/**
+ * Accept MOCK_TOTP_CODE or one of the factor's recovery codes, which is used up
+ */
+function useSecondFactor(factor: MockTotpFactor, code: unknown): void {
+  if (code === MOCK_TOTP_CODE) return;
+
+  const index = factor.recovery_codes.indexOf(String(code ?? ''));
+  if (index === -1) {
+    throw new MockApiError(400, 'mfa_code_invalid', 'Invalid or already used code', {
+      field: 'code',
+      reason: 'Invalid or already used code',
+    });
+  }
+  factor.recovery_codes.splice(index, 1);
+}
+
+function createTotpSecret(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => BASE32_ALPHABET[byte % 32]).join('');
+}
+
+// Single-use code in the abcd-1234 format RECOVERY_CODE_PATTERN accepts
+function createRecoveryCode(): string {
+  const hex = createId().replace(/-/g, '');
+  return `${hex.slice(0, 4)}-${hex.slice(4, 8)}`;
+}
+
+// Stand-in for a rendered QR code; the secret is shown for manual entry
+function createPlaceholderQrCode(): string {
+  const svg =
+    '<svg xmlns="http://www.w3.org/2000/svg" width="160" height="160">' +
+    '<rect width="160" height="160" fill="#f0f0f0"/>' +
+    '<text x="80" y="84" font-size="12" text-anchor="middle">Mock QR code</text></svg>';
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given timezone
+ */
+function toLocalDate(iso: string, timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(iso));
+}
+
+/**
+ * Monday (YYYY-MM-DD) of the local week an instant falls in
+ */
+function toLocalWeekStart(iso: string, timezone: string): string {
+  const date = new Date(`${toLocalDate(iso, timezone)}T00:00:00Z`);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Consecutive local days with at least one note, ending today
+ * (or yesterday, so the streak survives until the day is over)
+ */
+function countStreakDays(notes: NoteDto[], timezone: string): number {
+  const days = new Set(notes.map((note) => toLocalDate(note.created_at, timezone)));
+  let cursor = Date.now();
+  if (!days.has(toLocalDate(new Date(cursor).toISOString(), timezone))) {
+    cursor -= DAY_MS;
+  }
+
+  let streak = 0;
+  while (days.has(toLocalDate(new Date(cursor).toISOString(), timezone))) {
+    streak++;
+    cursor -= DAY_MS;
+  }
+  return streak;
+}
+
+function createId(): UUID {
+  return crypto.randomUUID();
+}
@@ -0,0 +1,228 @@
+import {
+  AnalyticsEventDto,
+  CategoryDto,
+  EmailVerificationType,
+  NoteDto,
+  PreferencesDto,
+  ProfileDto,
+  ReportDeliveryDto,
+  ReportDto,
+  ReportFeedbackDto,
+  UUID,
+} from '../../types';
+
+// Account known to the mock backend, with its password in plain text
+export type MockUser = {
+  id: UUID;
+  email: string;
+  password: string;
+  email_confirmed_at: string | null;
+  created_at: string;
+  totp: MockTotpFactor | null;
+};
+
+// Authenticator app factor, pending until a code from it is verified
+export type MockTotpFactor = {
+  factor_id: UUID;
+  secret: string;
+  verified: boolean;
+  recovery_codes: string[]; // Codes not used yet
+};
+
+// Sign-in waiting for its second factor (see POST /sign-in/mfa)
+export type MockMfaChallenge = {
+  mfa_token: string;
+  user_id: UUID;
+  expires_at: number;
+};
+
+// Single-use token from a link the API would email
+export type MockEmailLink = {
+  token: string;
+  type: EmailVerificationType | 'recovery';
+  user_id: UUID;
+  new_email: string | null; // Address an email_change link confirms
+  expires_at: number;
+  used: boolean;
+};
+
+// Tables behind the mock backend, one array per resource in the API plan
+export type MockDatabase = {
+  users: MockUser[];
+  profiles: ProfileDto[];
+  preferences: PreferencesDto[];
+  categories: CategoryDto[];
+  notes: NoteDto[];
+  reports: ReportDto[];
+  deliveries: ReportDeliveryDto[];
+  feedback: ReportFeedbackDto[];
+  analyticsEvents: AnalyticsEventDto[];
+  mfaChallenges: MockMfaChallenge[];
+  emailLinks: MockEmailLink[];
+};
+
+/**
+ * Seeded accounts for signing in against the mock backend:
+ * - `demo` has finished onboarding and has a few weeks of notes and reports
+ * - `newcomer` has a confirmed email but no profile or preferences yet
+ */
+export const MOCK_ACCOUNTS = {
+  demo: { email: 'demo@lifesync.local', password: 'Quiet-Harbor-42' },
+  newcomer: { email: 'new@lifesync.local', password: 'Amber-Lantern-17' },
+} as const;
+
+// There is no authenticator app to pair with, so every TOTP factor accepts this code
+export const MOCK_TOTP_CODE = '123456';
+
+const DEMO_USER_ID = '6f1c2a8e-3b4d-4e5f-9a0b-1c2d3e4f5a6b';
+const NEWCOMER_USER_ID = '0b9e8d7c-6a5f-4e3d-8c2b-1a0f9e8d7c6b';
+
+const CATEGORY_SEED: Array<Pick<CategoryDto, 'id' | 'slug' | 'name'>> = [
+  { id: 'c0a80101-0000-4000-8000-000000000001', slug: 'family', name: 'Family' },
+  { id: 'c0a80101-0000-4000-8000-000000000002', slug: 'friends', name: 'Friends' },
+  { id: 'c0a80101-0000-4000-8000-000000000003', slug: 'health', name: 'Health' },
+  { id: 'c0a80101-0000-4000-8000-000000000004', slug: 'work', name: 'Work' },
+  { id: 'c0a80101-0000-4000-8000-000000000005', slug: 'hobbies', name: 'Hobbies' },
+  { id: 'c0a80101-0000-4000-8000-000000000006', slug: 'personal-growth', name: 'Personal Growth' },
+];
+
+const NOTE_SAMPLES = [
+  'Long walk after dinner, felt clear-headed.',
+  'Called to catch up, planned a weekend visit.',
+  'Finished the quarterly review ahead of time.',
+  'Tried a new recipe, worth repeating.',
+  'Slept badly, skipped the morning run.',
+  'Read two chapters before bed.',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build a fresh copy of the seeded data
+ *
+ * Dates are relative to `now` so the dashboard streak and weekly limits
+ * look the same whenever the app is started.
+ */
+export function createMockDatabase(now = new Date()): MockDatabase {
+  const at = (daysAgo: number, hour = 9): string => {
+    const date = new Date(now.getTime() - daysAgo * DAY_MS);
+    date.setUTCHours(hour, 0, 0, 0);
+    return date.toISOString();
+  };
+
+  const categories: CategoryDto[] = CATEGORY_SEED.map((category) => ({
+    ...category,
+    active: true,
+    created_at: at(90),
+  }));
+
+  const activeCategories = categories.slice(0, 3).map((category) => category.id);
+
+  const notes: NoteDto[] = Array.from({ length: 12 }, (_, index) => {
+    const daysAgo = Math.floor(index / 2);
+    return {
+      id: mockId('n', index + 1),
+      user_id: DEMO_USER_ID,
+      category_id: activeCategories[index % activeCategories.length],
+      title: index % 3 === 0 ? null : `Day ${daysAgo + 1}`,
+      content: NOTE_SAMPLES[index % NOTE_SAMPLES.length],
+      created_at: at(daysAgo, 8 + (index % 2) * 10),
+      updated_at: at(daysAgo, 8 + (index % 2) * 10),
+      deleted_at: null,
+    };
+  });
+
+  const reports: ReportDto[] = [
+    createSeedReport(mockId('r', 1), 'scheduled', at(9, 2)),
+    createSeedReport(mockId('r', 2), 'on_demand', at(3, 18)),
+  ];
+
+  const deliveries: ReportDeliveryDto[] = reports.map((report, index) => ({
+    id: mockId('d', index + 1),
+    report_id: report.id,
+    user_id: DEMO_USER_ID,
+    channel: 'in_app',
+    status: index === 0 ? 'opened' : 'sent',
+    queued_at: report.created_at,
+    sent_at: report.created_at,
+    opened_at: index === 0 ? report.created_at : null,
+    created_at: report.created_at,
+    updated_at: report.created_at,
+  }));
+
+  return {
+    users: [
+      {
+        id: DEMO_USER_ID,
+        ...MOCK_ACCOUNTS.demo,
+        email_confirmed_at: at(60),
+        created_at: at(60),
+        totp: null,
+      },
+      {
+        id: NEWCOMER_USER_ID,
+        ...MOCK_ACCOUNTS.newcomer,
+        email_confirmed_at: at(1),
+        created_at: at(1),
+        totp: null,
+      },
+    ],
+    profiles: [
+      { user_id: DEMO_USER_ID, timezone: 'Europe/Warsaw', created_at: at(60), updated_at: at(60) },
+    ],
+    preferences: [
+      {
+        user_id: DEMO_USER_ID,
+        active_categories: activeCategories,
+        preferred_delivery_channels: ['in_app', 'email'],
+        report_dow: 0,
+        report_hour: 2,
+        max_daily_notes: 4,
+        email_unsubscribed_at: null,
+        created_at: at(60),
+        updated_at: at(60),
+      },
+    ],
+    categories,
+    notes,
+    reports,
+    deliveries,
+    feedback: [
+      {
+        id: mockId('f', 1),
+        report_id: reports[0].id,
+        user_id: DEMO_USER_ID,
+        rating: 1,
+        comment: 'Spot on about the sleep pattern.',
+        created_at: at(8),
+        updated_at: at(8),
+      },
+    ],
+    analyticsEvents: [],
+    mfaChallenges: [],
+    emailLinks: [],
+  };
+}
+
+function createSeedReport(id: UUID, generatedBy: ReportDto['generated_by'], createdAt: string): ReportDto {
+  return {
+    id,
+    user_id: DEMO_USER_ID,
+    generated_by: generatedBy,
+    html: '<h1>Your week</h1><p>Steady progress across family, friends and health.</p>',
+    text_version: 'Your week: steady progress across family, friends and health.',
+    pdf_path: null,
+    llm_model: 'mock',
+    system_prompt_version: 'v1',
+    categories_snapshot: CATEGORY_SEED.slice(0, 3).map(({ id, name }) => ({ id, name })),
+    created_at: createdAt,
+    updated_at: createdAt,
+    deleted_at: null,
+  };
+}
+
+// Stable UUID-shaped ids for seeded rows, e.g. mockId('n', 3)
+function mockId(prefix: 'n' | 'r' | 'd' | 'f', index: number): UUID {
+  const kind = { n: 'a', r: 'b', d: 'd', f: 'e' }[prefix];
+  return `${kind}0000000-0000-4000-8000-${String(index).padStart(12, '0')}`;
+}
@@ -0,0 +1,80 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { firstValueFrom } from 'rxjs';
+import { ApiClient, toHttpParams } from './api-client.service';
+import { API_CONFIG, ApiConfig } from '../config/api.config';
+import { ResponseValidationError } from '../utils/api-error';
+
+const API_URL = '/api';
+
+const API_CONFIG_STUB: ApiConfig = {
+  baseUrl: API_URL,
+  timeoutMs: 10000,
+  maxRequestTimeoutMs: 30000,
+  retryCount: 0,
+  responseValidationSampleRate: 1,
+};
+
+describe('toHttpParams', () => {
+  it('should repeat the key for each array item', () => {
+    const params = toHttpParams({ category_id: ['a', 'b'], limit: 50 });
+
+    expect(params.getAll('category_id')).toEqual(['a', 'b']);
+    expect(params.toString()).toBe('category_id=a&category_id=b&limit=50');
+  });
+
+  it('should leave out null and undefined values, also inside arrays', () => {
+    const params = toHttpParams({ from: undefined, to: null, category_id: ['a', null, undefined] });
+
+    expect(params.keys()).toEqual(['category_id']);
+    expect(params.getAll('category_id')).toEqual(['a']);
+  });
+
+  it('should convert numbers and booleans to strings', () => {
+    expect(toHttpParams({ offset: 0, include_deleted: false }).toString()).toBe(
+      'offset=0&include_deleted=false'
+    );
+  });
+});
+
+describe('ApiClient', () => {
+  let api: ApiClient;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: API_CONFIG, useValue: API_CONFIG_STUB },
+      ],
+    });
+    api = TestBed.inject(ApiClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should build the URL from encoded path params and the query', () => {
+    api.request('DELETE /notes/:id', { params: { id: 'a/b' } }).subscribe();
+    api.request('GET /notes', { query: { category_id: ['a', 'b'] } }).subscribe();
+
+    const remove = httpMock.expectOne(`${API_URL}/notes/a%2Fb`);
+    expect(remove.request.method).toBe('DELETE');
+    remove.flush(null);
+    const list = httpMock.expectOne((req) => req.url === `${API_URL}/notes`);
+    expect(list.request.urlWithParams).toBe(`${API_URL}/notes?category_id=a&category_id=b`);
+    list.flush({ items: [], total: 0, limit: 20, offset: 0 });
+  });
+
+  it('should fail a response that does not match its schema in development', async () => {
+    const result = firstValueFrom(api.request('GET /reports/:id', { params: { id: 'report-1' } }));
+
+    httpMock.expectOne(`${API_URL}/reports/report-1`).flush({ id: 'report-1' });
+
+    await expectAsync(result).toBeRejectedWith(jasmine.any(ResponseValidationError));
+  });
+});
@@ -0,0 +1,138 @@
+import { Injectable, inject, isDevMode } from '@angular/core';
+import { HttpClient, HttpContext, HttpHeaders, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { API_CONFIG } from '../config/api.config';
+import { LoggerService } from './logger.service';
+import { ResponseValidationError } from '../utils/api-error';
+import { API_RESPONSE_SCHEMAS } from '../utils/api-schemas';
+import { Schema } from '../utils/schema';
+import { ApiRoute, ApiRoutes } from '../../types';
+
+type QueryValue = string | number | boolean | null | undefined;
+
+// Options a route accepts, derived from its entry in ApiRoutes
+type ApiRequestOptions<R extends ApiRoute> = (ApiRoutes[R] extends { params: infer P }
+  ? { params: P }
+  : unknown) &
+  (ApiRoutes[R] extends { query: infer Q } ? { query?: Q } : unknown) &
+  (ApiRoutes[R] extends { body: infer B } ? { body: B } : unknown) & {
+    headers?: HttpHeaders | Record<string, string>;
+    context?: HttpContext;
+  };
+
+// Options can be left out when the route needs neither params nor a body
+type ApiRequestArgs<R extends ApiRoute> = Record<string, never> extends ApiRequestOptions<R>
+  ? [options?: ApiRequestOptions<R>]
+  : [options: ApiRequestOptions<R>];
+
+/**
+ * ApiClient
+ *
+ * Typed access to the REST API described by `ApiRoutes` in src/types.ts.
+ * The route key selects the HTTP method, path, query, body and response
+ * types, so feature services never build URLs or HttpParams by hand:
+ *
+ * `api.request('GET /notes', { query: { category_id: [a, b], limit: 50 } })`
+ *
+ * Response bodies are checked against API_RESPONSE_SCHEMAS: every response
+ * in development and staging, a sample in production (see API_CONFIG).
+ * A mismatch is logged with the endpoint and field path; in development
+ * and tests it also fails the request with ResponseValidationError, in
+ * production the response is passed on unchanged.
+ *
+ * Auth endpoints stay in AuthService, which needs per-request HttpContext.
+ */
+@Injectable({ providedIn: 'root' })
+export class ApiClient {
+  private readonly http = inject(HttpClient);
+  private readonly apiConfig = inject(API_CONFIG);
+  private readonly logger = inject(LoggerService).scoped('API');
+
+  request<R extends ApiRoute>(
+    route: R,
+    ...[options]: ApiRequestArgs<R>
+  ): Observable<ApiRoutes[R]['response']> {
+    const { params, query, body, headers, context } = (options ?? {}) as {
+      params?: Record<string, string>;
+      query?: object;
+      body?: unknown;
+      headers?: HttpHeaders | Record<string, string>;
+      context?: HttpContext;
+    };
+    const [method, path] = route.split(' ');
+    const url = `${this.apiConfig.baseUrl}${this.buildPath(path, params)}`;
+
+    return this.http
+      .request<ApiRoutes[R]['response']>(method, url, {
+        body,
+        headers,
+        context,
+        params: query ? toHttpParams(query) : undefined,
+      })
+      .pipe(map((response) => this.validateResponse(route, `${method} ${url}`, response)));
+  }
+
+  /**
+   * Check a response body against its route schema, when sampled
+   */
+  private validateResponse<T>(route: ApiRoute, endpoint: string, response: T): T {
+    const schema = API_RESPONSE_SCHEMAS[route] as Schema<unknown> | undefined;
+    if (!schema || Math.random() >= this.apiConfig.responseValidationSampleRate) {
+      return response;
+    }
+
+    const issues = schema.validate(response);
+    if (issues.length === 0) {
+      return response;
+    }
+
+    this.logger.error(
+      `Invalid response from ${endpoint}`,
+      issues.map(
+        (issue) =>
+          `${issue.path || '(root)'}: expected ${issue.expected}, received ${issue.received}`
+      )
+    );
+    if (isDevMode()) {
+      throw new ResponseValidationError(endpoint, issues);
+    }
+    return response;
+  }
+
+  /**
+   * Replace `:name` segments with URL-encoded values
+   */
+  private buildPath(path: string, params: Record<string, string> = {}): string {
+    return path.replace(/:(\w+)/g, (_, name: string) => {
+      const value = params[name];
+      if (value === undefined) {
+        throw new Error(`Missing path parameter "${name}" for ${path}`);
+      }
+      return encodeURIComponent(value);
+    });
+  }
+}
+
+/**
+ * Serialize a query object into HttpParams
+ * - undefined and null values are left out
+ * - arrays become repeated keys (`category_id=a&category_id=b`)
+ * - numbers and booleans are converted to strings
+ */
+export function toHttpParams(query: object): HttpParams {
+  let params = new HttpParams();
+
+  Object.entries(query as Record<string, QueryValue | QueryValue[]>).forEach(
+    ([key, value]) => {
+      const values = Array.isArray(value) ? value : [value];
+      values
+        .filter((item) => item !== undefined && item !== null)
+        .forEach((item) => {
+          params = params.append(key, String(item));
+        });
+    }
+  );
+
+  return params;
+}
@@ -1,17 +1,62 @@
-import { Injectable, inject, signal } from '@angular/core';
-import { HttpClient, HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { tap, catchError } from 'rxjs/operators';
-import { SignInRequest, SignInResponseDto, SignUpRequest } from '../../types';
+import { Injectable, Injector, NgZone, inject, signal } from '@angular/core';
+import { HttpClient, HttpContext, HttpErrorResponse } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { tap, catchError, map, finalize, shareReplay, switchMap } from 'rxjs/operators';
+import {
+  ChangeEmailRequest,
+  ChangePasswordRequest,
+  DeleteAccountRequest,
+  DisableTotpRequest,
+  ForgotPasswordRequest,
+  MeResponseDto,
+  MessageResponseDto,
+  MfaChallengeRequest,
+  MfaStatusDto,
+  RecoveryCodesDto,
+  RefreshSessionRequest,
+  ResendVerificationRequest,
+  ResetPasswordRequest,
+  SignInRequest,
+  SignInResponseDto,
+  SignInSessionDto,
+  SignUpRequest,
+  TotpEnrollmentDto,
+  VerifyEmailRequest,
+  VerifyResetTokenRequest,
+  VerifyTotpEnrollmentRequest,
+} from '../../types';
+import { SKIP_TOKEN_REFRESH } from '../interceptors/http-context.tokens';
+import { withWebLock } from '../utils/web-lock';
+import { TokenStorageService } from './token-storage.service';
+import { IdempotencyKeysService } from './idempotency-keys.service';
+import { HttpCacheService } from './http-cache.service';
+import { InFlightRequestsService } from './in-flight-requests.service';
+import { LoggerService } from './logger.service';
+import { OfflineSyncService } from './offline-sync.service';
+import { API_CONFIG } from '../config/api.config';
 
 @Injectable({ providedIn: 'root' })
 export class AuthService {
   private readonly http = inject(HttpClient);
-  private readonly API_BASE_URL = 'http://localhost:3000/api';
+  private readonly ngZone = inject(NgZone);
+  private readonly injector = inject(Injector);
+  private readonly tokenStorage = inject(TokenStorageService);
+  private readonly idempotencyKeys = inject(IdempotencyKeysService);
+  private readonly httpCache = inject(HttpCacheService);
+  private readonly inFlightRequests = inject(InFlightRequestsService);
+  private readonly logger = inject(LoggerService).scoped('AUTH');
+  private readonly API_BASE_URL = inject(API_CONFIG).baseUrl;
+
+  // Web Lock serializing refreshes across tabs, see refreshAccessToken()
+  private readonly REFRESH_LOCK_NAME = 'life-sync-token-refresh';
+
+  // Refresh this long before the access token actually expires
+  private readonly REFRESH_LEEWAY_MS = 60 * 1000;
 
   private readonly STORAGE_KEYS = {
     ACCESS_TOKEN: 'access_token',
     REFRESH_TOKEN: 'refresh_token',
+    EXPIRES_AT: 'token_expires_at',
     USER_ID: 'user_id',
     USER_EMAIL: 'user_email',
   };
@@ -19,20 +64,67 @@ export class AuthService {
   // Signal-based state for authentication
   private readonly accessTokenSignal = signal<string | null>(this.getStoredAccessToken());
   private readonly refreshTokenSignal = signal<string | null>(this.getStoredRefreshToken());
+  private readonly expiresAtSignal = signal<number | null>(this.getStoredExpiresAt());
   private readonly userIdSignal = signal<string | null>(this.getStoredUserId());
   private readonly userEmailSignal = signal<string | null>(this.getStoredUserEmail());
+  private readonly meSignal = signal<MeResponseDto | null>(null);
 
   // Public signal accessors
   readonly accessToken = this.accessTokenSignal.asReadonly();
   readonly refreshToken = this.refreshTokenSignal.asReadonly();
   readonly userId = this.userIdSignal.asReadonly();
   readonly userEmail = this.userEmailSignal.asReadonly();
+  readonly me = this.meSignal.asReadonly();
 
-  signIn(request: SignInRequest): Observable<SignInResponseDto> {
-    return this.http.post<SignInResponseDto>(`${this.API_BASE_URL}/sign-in`, request).pipe(
-      tap((response) => this.storeTokens(response)),
-      catchError((error) => throwError(() => error))
-    );
+  // Shared refresh request so concurrent callers wait on a single round-trip
+  private refreshInFlight$: Observable<string> | null = null;
+  private meInFlight$: Observable<MeResponseDto> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.scheduleTokenRefresh();
+  }
+
+  /**
+   * Sign in with email and password and store the session
+   *
+   * @param request - SignInRequest containing email and password
+   * @param rememberMe - Keep the session after the browser is closed (default true)
+   * @returns Observable<SignInResponseDto> with user info and session tokens
+   * @throws HttpErrorResponse for invalid credentials, unverified email, rate limiting,
+   *   or 401 `mfa_required` with `details.mfa_token` when 2FA is enabled
+   */
+  signIn(request: SignInRequest, rememberMe = true): Observable<SignInResponseDto> {
+    return this.http
+      .post<SignInResponseDto>(`${this.API_BASE_URL}/sign-in`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+      .pipe(
+        tap((response) => this.startSession(response, rememberMe)),
+        catchError((error) => throwError(() => error))
+      );
+  }
+
+  /**
+   * Complete a sign-in that requires a second factor
+   *
+   * @param request - MfaChallengeRequest with the mfa_token and a TOTP or recovery code
+   * @param rememberMe - Keep the session after the browser is closed (default true)
+   * @returns Observable<SignInResponseDto> with user info and session tokens
+   * @throws HttpErrorResponse for a wrong code or an expired mfa_token
+   */
+  verifyMfaChallenge(
+    request: MfaChallengeRequest,
+    rememberMe = true
+  ): Observable<SignInResponseDto> {
+    return this.http
+      .post<SignInResponseDto>(`${this.API_BASE_URL}/sign-in/mfa`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+      .pipe(
+        tap((response) => this.startSession(response, rememberMe)),
+        catchError((error) => throwError(() => error))
+      );
   }
 
   /**
@@ -44,59 +136,445 @@ export class AuthService {
    * @throws HttpErrorResponse for validation errors, duplicate email, weak password, etc.
    */
   signUp(request: SignUpRequest): Observable<SignInResponseDto> {
-    return this.http.post<SignInResponseDto>(`${this.API_BASE_URL}/sign-up`, request).pipe(
-      tap((response) => {
-        console.log('Sign-up successful:', response.user.email);
-        // Store session tokens from successful registration
-        this.storeTokens(response);
-      }),
+    return this.http
+      .post<SignInResponseDto>(`${this.API_BASE_URL}/sign-up`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+      .pipe(
+        tap((response) => {
+          this.logger.info('Sign-up successful');
+          // Store session tokens from successful registration
+          this.storeTokens(response);
+        }),
+        catchError((error) => throwError(() => error))
+      );
+  }
+
+  /**
+   * Get the authenticated user's context and onboarding flags
+   *
+   * @returns Observable<MeResponseDto> with verification and hydration flags
+   * @throws HttpErrorResponse 401 when not signed in
+   */
+  getMe(): Observable<MeResponseDto> {
+    return this.http
+      .get<MeResponseDto>(`${this.API_BASE_URL}/me`)
+      .pipe(catchError((error) => throwError(() => error)));
+  }
+
+  /**
+   * Get the /api/me context, cached until the session changes
+   * Used by route guards that need verification and onboarding flags
+   *
+   * @param forceRefresh - Skip the cache, e.g. after the user verified their email
+   * @returns Observable<MeResponseDto> for the current user
+   */
+  loadMe(forceRefresh = false): Observable<MeResponseDto> {
+    const cached = this.meSignal();
+    if (cached && !forceRefresh && cached.userId === this.userIdSignal()) {
+      return of(cached);
+    }
+
+    // Guards on the same route ask at the same time, share one request
+    if (!this.meInFlight$ || forceRefresh) {
+      // A forced refresh replaces the pending request; the replaced one must
+      // neither overwrite the newer profile nor clear the newer request
+      const request$: Observable<MeResponseDto> = this.getMe().pipe(
+        tap((me) => {
+          if (this.meInFlight$ === request$) {
+            this.meSignal.set(me);
+          }
+        }),
+        finalize(() => {
+          if (this.meInFlight$ === request$) {
+            this.meInFlight$ = null;
+          }
+        }),
+        shareReplay(1)
+      );
+      this.meInFlight$ = request$;
+    }
+
+    return this.meInFlight$;
+  }
+
+  /**
+   * Confirm an email address with the token_hash from a verification link
+   * and store the session the API returns
+   *
+   * @param request - VerifyEmailRequest with token_hash and link type
+   * @returns Observable<SignInResponseDto> with the verified user and session
+   * @throws HttpErrorResponse for invalid or expired links
+   */
+  verifyEmail(request: VerifyEmailRequest): Observable<SignInResponseDto> {
+    return this.http
+      .post<SignInResponseDto>(`${this.API_BASE_URL}/verify-email`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+      .pipe(
+        tap((response) => this.storeTokens(response)),
+        catchError((error) => throwError(() => error))
+      );
+  }
+
+  /**
+   * Adopt a session delivered in a verification link fragment
+   * The tokens are checked against /api/me before anything is stored
+   *
+   * @param session - Session tokens parsed from the link
+   * @returns Observable<MeResponseDto> for the user the session belongs to
+   * @throws HttpErrorResponse 401 when the tokens are invalid or expired
+   */
+  establishSession(session: SignInSessionDto): Observable<MeResponseDto> {
+    return this.http
+      .get<MeResponseDto>(`${this.API_BASE_URL}/me`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+        context: this.skipTokenRefreshContext(),
+      })
+      .pipe(
+        tap((me) => {
+          this.storeTokens({
+            user: {
+              id: me.userId,
+              email: me.email,
+              email_confirmed_at: me.emailVerified ? new Date().toISOString() : null,
+            },
+            session,
+          });
+          this.meSignal.set(me);
+        }),
+        catchError((error) => throwError(() => error))
+      );
+  }
+
+  /**
+   * Send the account verification email again
+   *
+   * @param email - Address the account was registered with
+   * @returns Observable<MessageResponseDto> acknowledgement
+   * @throws HttpErrorResponse 429 with `details.retryAfter` (seconds) when rate limited
+   */
+  resendVerification(email: string): Observable<MessageResponseDto> {
+    const request: ResendVerificationRequest = { email };
+    return this.http
+      .post<MessageResponseDto>(`${this.API_BASE_URL}/resend-verification`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+      .pipe(catchError((error) => throwError(() => error)));
+  }
+
+  /**
+   * Request a password reset email
+   * The API responds with success whether or not the email is registered,
+   * so the UI never reveals which addresses have accounts
+   *
+   * @param request - ForgotPasswordRequest with email and optional redirect URL
+   * @returns Observable<MessageResponseDto> acknowledgement
+   * @throws HttpErrorResponse for invalid email format or rate limiting
+   */
+  requestPasswordReset(request: ForgotPasswordRequest): Observable<MessageResponseDto> {
+    return this.http
+      .post<MessageResponseDto>(`${this.API_BASE_URL}/forgot-password`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+      .pipe(catchError((error) => throwError(() => error)));
+  }
+
+  /**
+   * Check that a reset token from the email link is still usable
+   * before the user picks a new password
+   *
+   * @param token - Token from the reset link
+   * @returns Observable<MessageResponseDto> when the token is valid
+   * @throws HttpErrorResponse when the token is invalid, expired or already used
+   */
+  verifyResetToken(token: string): Observable<MessageResponseDto> {
+    const request: VerifyResetTokenRequest = { token };
+    return this.http
+      .post<MessageResponseDto>(`${this.API_BASE_URL}/reset-password/verify`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+      .pipe(catchError((error) => throwError(() => error)));
+  }
+
+  /**
+   * Set a new password using a reset token
+   * Does not sign the user in; they continue from /login
+   *
+   * @param request - ResetPasswordRequest with token and new password
+   * @returns Observable<MessageResponseDto> acknowledgement
+   * @throws HttpErrorResponse for invalid/expired/used tokens or weak passwords
+   */
+  resetPassword(request: ResetPasswordRequest): Observable<MessageResponseDto> {
+    return this.http
+      .post<MessageResponseDto>(`${this.API_BASE_URL}/reset-password`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+      .pipe(catchError((error) => throwError(() => error)));
+  }
+
+  /**
+   * Change the password of the signed-in user
+   * A wrong current password is reported as 401 without ending the session
+   *
+   * @param request - ChangePasswordRequest with current and new password
+   * @returns Observable<MessageResponseDto> acknowledgement
+   * @throws HttpErrorResponse for a wrong current password or weak new password
+   */
+  changePassword(request: ChangePasswordRequest): Observable<MessageResponseDto> {
+    return this.withFreshAccessToken(() =>
+      this.http.post<MessageResponseDto>(`${this.API_BASE_URL}/change-password`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+    ).pipe(catchError((error) => throwError(() => error)));
+  }
+
+  /**
+   * Request an email change for the signed-in user
+   * The API emails a confirmation link to the new address; `userEmail` keeps
+   * the current address until that link is opened (see /auth/callback)
+   *
+   * @param request - ChangeEmailRequest with the new address and current password
+   * @returns Observable<MessageResponseDto> acknowledgement
+   * @throws HttpErrorResponse for a wrong password, taken address or rate limiting
+   */
+  changeEmail(request: ChangeEmailRequest): Observable<MessageResponseDto> {
+    return this.withFreshAccessToken(() =>
+      this.http.post<MessageResponseDto>(`${this.API_BASE_URL}/change-email`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+    ).pipe(catchError((error) => throwError(() => error)));
+  }
+
+  /**
+   * Permanently delete the signed-in user's account and all of their data
+   * On success the local session is cleared as well
+   *
+   * @param request - DeleteAccountRequest with current password and typed confirmation
+   * @returns Observable<MessageResponseDto> acknowledgement
+   * @throws HttpErrorResponse for a wrong password or confirmation phrase
+   */
+  deleteAccount(request: DeleteAccountRequest): Observable<MessageResponseDto> {
+    return this.withFreshAccessToken(() =>
+      this.http.delete<MessageResponseDto>(`${this.API_BASE_URL}/account`, {
+        body: request,
+        context: this.skipTokenRefreshContext(),
+      })
+    ).pipe(
+      tap(() => this.signOut()),
       catchError((error) => throwError(() => error))
     );
   }
 
+  /**
+   * Get the 2FA state of the signed-in user
+   *
+   * @returns Observable<MfaStatusDto> with TOTP state and remaining recovery codes
+   */
+  getMfaStatus(): Observable<MfaStatusDto> {
+    return this.http
+      .get<MfaStatusDto>(`${this.API_BASE_URL}/mfa`)
+      .pipe(catchError((error) => throwError(() => error)));
+  }
+
+  /**
+   * Start TOTP enrollment; the factor stays inactive until verified
+   *
+   * @returns Observable<TotpEnrollmentDto> with the otpauth URI, QR code and secret
+   */
+  enrollTotp(): Observable<TotpEnrollmentDto> {
+    return this.http
+      .post<TotpEnrollmentDto>(`${this.API_BASE_URL}/mfa/totp/enroll`, {})
+      .pipe(catchError((error) => throwError(() => error)));
+  }
+
+  /**
+   * Activate a pending TOTP factor with a code from the authenticator app
+   *
+   * @param request - VerifyTotpEnrollmentRequest with factor id and code
+   * @returns Observable<RecoveryCodesDto> with single-use recovery codes, shown once
+   * @throws HttpErrorResponse for a wrong or expired code
+   */
+  verifyTotpEnrollment(request: VerifyTotpEnrollmentRequest): Observable<RecoveryCodesDto> {
+    return this.withFreshAccessToken(() =>
+      this.http.post<RecoveryCodesDto>(`${this.API_BASE_URL}/mfa/totp/verify`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+    ).pipe(catchError((error) => throwError(() => error)));
+  }
+
+  /**
+   * Turn off TOTP and invalidate the remaining recovery codes
+   *
+   * @param request - DisableTotpRequest with a current TOTP or recovery code
+   * @returns Observable<MessageResponseDto> acknowledgement
+   * @throws HttpErrorResponse for a wrong code
+   */
+  disableTotp(request: DisableTotpRequest): Observable<MessageResponseDto> {
+    return this.withFreshAccessToken(() =>
+      this.http.delete<MessageResponseDto>(`${this.API_BASE_URL}/mfa/totp`, {
+        body: request,
+        context: this.skipTokenRefreshContext(),
+      })
+    ).pipe(catchError((error) => throwError(() => error)));
+  }
+
+  /**
+   * Exchange the stored refresh token for a new session
+   * Concurrent callers share one in-flight request, so a burst of 401s
+   * results in a single call to the refresh endpoint. Tabs take turns
+   * through a Web Lock, and a tab that finds the token already rotated by
+   * another one adopts that session instead of sending its stale token
+   * (which the API would reject, signing every tab out).
+   *
+   * @returns Observable<string> emitting the new access token
+   * @throws HttpErrorResponse when the refresh token is missing, expired or revoked
+   */
+  refreshAccessToken(): Observable<string> {
+    if (this.refreshInFlight$) {
+      return this.refreshInFlight$;
+    }
+
+    const refreshToken = this.refreshTokenSignal();
+    if (!refreshToken) {
+      return throwError(
+        () => new HttpErrorResponse({ status: 401, statusText: 'No refresh token available' })
+      );
+    }
+
+    this.refreshInFlight$ = withWebLock(this.REFRESH_LOCK_NAME, () => this.rotateSession(refreshToken)).pipe(
+      finalize(() => {
+        this.refreshInFlight$ = null;
+      }),
+      shareReplay(1)
+    );
+
+    return this.refreshInFlight$;
+  }
+
+  /**
+   * Send the refresh request, unless another tab rotated `refreshToken`
+   * while this one waited for the lock
+   */
+  private rotateSession(refreshToken: string): Observable<string> {
+    const storedRefreshToken = this.getStoredRefreshToken();
+    const storedAccessToken = this.getStoredAccessToken();
+    if (storedRefreshToken && storedAccessToken && storedRefreshToken !== refreshToken) {
+      this.syncFromStorage();
+      return of(storedAccessToken);
+    }
+
+    const request: RefreshSessionRequest = { refresh_token: refreshToken };
+    return this.http
+      .post<SignInResponseDto>(`${this.API_BASE_URL}/refresh`, request, {
+        context: this.skipTokenRefreshContext(),
+      })
+      .pipe(
+        tap((response) => this.storeTokens(response)),
+        map((response) => response.session.access_token)
+      );
+  }
+
+  /**
+   * Store a session from an interactive sign-in in the backend chosen by "remember me"
+   */
+  private startSession(response: SignInResponseDto, rememberMe: boolean): void {
+    this.tokenStorage.usePersistence(rememberMe, Object.values(this.STORAGE_KEYS));
+    this.storeTokens(response);
+  }
+
   private storeTokens(response: SignInResponseDto): void {
-    const { access_token, refresh_token } = response.session;
+    const { access_token, refresh_token, expires_in } = response.session;
     const { id, email } = response.user;
+    const expiresAt = Date.now() + expires_in * 1000;
 
-    localStorage.setItem(this.STORAGE_KEYS.ACCESS_TOKEN, access_token);
-    localStorage.setItem(this.STORAGE_KEYS.REFRESH_TOKEN, refresh_token);
-    localStorage.setItem(this.STORAGE_KEYS.USER_ID, id);
-    localStorage.setItem(this.STORAGE_KEYS.USER_EMAIL, email);
+    this.tokenStorage.setItem(this.STORAGE_KEYS.ACCESS_TOKEN, access_token);
+    this.tokenStorage.setItem(this.STORAGE_KEYS.REFRESH_TOKEN, refresh_token);
+    this.tokenStorage.setItem(this.STORAGE_KEYS.EXPIRES_AT, String(expiresAt));
+    this.tokenStorage.setItem(this.STORAGE_KEYS.USER_ID, id);
+    this.tokenStorage.setItem(this.STORAGE_KEYS.USER_EMAIL, email);
 
     // Update signals
     this.accessTokenSignal.set(access_token);
     this.refreshTokenSignal.set(refresh_token);
+    this.expiresAtSignal.set(expiresAt);
     this.userIdSignal.set(id);
     this.userEmailSignal.set(email);
+
+    // Verification and onboarding flags may have changed with the new session
+    this.meSignal.set(null);
+
+    this.scheduleTokenRefresh();
   }
 
-  private getStoredAccessToken(): string | null {
-    console.log('getStoredAccessToken', this.STORAGE_KEYS);
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem(this.STORAGE_KEYS.ACCESS_TOKEN);
+  /**
+   * Schedule a background refresh shortly before the access token expires
+   * Failures are ignored here; the interceptor retries on the next request
+   * and logs the user out if the refresh is rejected
+   */
+  private scheduleTokenRefresh(): void {
+    this.clearRefreshTimer();
+
+    const expiresAt = this.expiresAtSignal();
+    if (typeof window === 'undefined' || !expiresAt || !this.refreshTokenSignal()) {
+      return;
     }
-    return null;
+
+    const delay = Math.max(expiresAt - Date.now() - this.REFRESH_LEEWAY_MS, 0);
+
+    // Run the timer outside Angular so a pending refresh never blocks app stability
+    this.ngZone.runOutsideAngular(() => {
+      this.refreshTimer = setTimeout(() => {
+        this.ngZone.run(() => {
+          this.refreshAccessToken().subscribe({
+            error: (error) => this.logger.warn('Background token refresh failed', error),
+          });
+        });
+      }, delay);
+    });
   }
 
-  private getStoredRefreshToken(): string | null {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem(this.STORAGE_KEYS.REFRESH_TOKEN);
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
     }
-    return null;
+  }
+
+  /**
+   * Refresh an expiring access token before a request that opts out of the
+   * interceptor's 401 handling (re-authenticated endpoints report a wrong
+   * password as 401, which must not end the session)
+   */
+  private withFreshAccessToken<T>(request: () => Observable<T>): Observable<T> {
+    return this.isAccessTokenExpiring() && this.refreshTokenSignal()
+      ? this.refreshAccessToken().pipe(switchMap(() => request()))
+      : request();
+  }
+
+  private skipTokenRefreshContext(): HttpContext {
+    return new HttpContext().set(SKIP_TOKEN_REFRESH, true);
+  }
+
+  private getStoredAccessToken(): string | null {
+    return this.tokenStorage.getItem(this.STORAGE_KEYS.ACCESS_TOKEN);
+  }
+
+  private getStoredRefreshToken(): string | null {
+    return this.tokenStorage.getItem(this.STORAGE_KEYS.REFRESH_TOKEN);
+  }
+
+  private getStoredExpiresAt(): number | null {
+    const value = this.tokenStorage.getItem(this.STORAGE_KEYS.EXPIRES_AT);
+    return value ? Number(value) : null;
   }
 
   private getStoredUserId(): string | null {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem(this.STORAGE_KEYS.USER_ID);
-    }
-    return null;
+    return this.tokenStorage.getItem(this.STORAGE_KEYS.USER_ID);
   }
 
   private getStoredUserEmail(): string | null {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem(this.STORAGE_KEYS.USER_EMAIL);
-    }
-    return null;
+    return this.tokenStorage.getItem(this.STORAGE_KEYS.USER_EMAIL);
   }
 
   getAccessToken(): string | null {
@@ -111,15 +589,70 @@ export class AuthService {
     return !!this.accessTokenSignal();
   }
 
+  /**
+   * Whether a storage key belongs to the persisted session
+   * A null key means the whole storage area was cleared
+   */
+  ownsStorageKey(key: string | null): boolean {
+    return key === null || Object.values(this.STORAGE_KEYS).includes(key);
+  }
+
+  /**
+   * Re-read the session from storage after another tab signed in,
+   * refreshed its tokens or logged out
+   */
+  syncFromStorage(): void {
+    this.accessTokenSignal.set(this.getStoredAccessToken());
+    this.refreshTokenSignal.set(this.getStoredRefreshToken());
+    this.expiresAtSignal.set(this.getStoredExpiresAt());
+    this.userIdSignal.set(this.getStoredUserId());
+    this.userEmailSignal.set(this.getStoredUserEmail());
+    this.meSignal.set(null);
+
+    this.scheduleTokenRefresh();
+  }
+
+  /**
+   * Whether the access token is expired or about to expire
+   * Sessions stored before expiry tracking existed are treated as valid
+   */
+  isAccessTokenExpiring(): boolean {
+    const expiresAt = this.expiresAtSignal();
+    return !!expiresAt && expiresAt - Date.now() <= this.REFRESH_LEEWAY_MS;
+  }
+
+  /**
+   * Sign out at the user's request
+   * Unlike logout(), also discards the user's writes queued offline, so
+   * note content does not stay behind on a shared device
+   */
+  signOut(): void {
+    const userId = this.userIdSignal();
+    if (userId) {
+      // Resolved lazily, OfflineSyncService itself depends on AuthService
+      this.injector.get(OfflineSyncService).clear(userId);
+    }
+    this.logout();
+  }
+
+  /**
+   * End the session, e.g. after the idle timeout or a failed token refresh
+   * Writes queued offline are kept and replayed when the same user signs in again
+   */
   logout(): void {
-    Object.values(this.STORAGE_KEYS).forEach((key) => {
-      localStorage.removeItem(key);
-    });
+    this.clearRefreshTimer();
+
+    this.tokenStorage.clear(Object.values(this.STORAGE_KEYS));
+    this.idempotencyKeys.clear();
+    this.httpCache.clear();
+    this.inFlightRequests.clear();
 
     // Update all signals
     this.accessTokenSignal.set(null);
     this.refreshTokenSignal.set(null);
+    this.expiresAtSignal.set(null);
     this.userIdSignal.set(null);
     this.userEmailSignal.set(null);
+    this.meSignal.set(null);
   }
 }
@@ -1,5 +1,4 @@
 import { Injectable, inject } from '@angular/core';
-import { HttpClient, HttpParams } from '@angular/common/http';
 import { BehaviorSubject, Observable, throwError, timer } from 'rxjs';
 import {
   catchError,
@@ -9,16 +8,24 @@ import {
   map,
 } from 'rxjs/operators';
 import {
+  AppErrorKind,
   DashboardDto,
   DashboardQuery,
   UUID,
 } from '../../types';
+import { API_CONFIG } from '../config/api.config';
+import { ApiClient } from './api-client.service';
+import { HttpCacheService } from './http-cache.service';
+import { LoggerService } from './logger.service';
+import { withCache } from '../interceptors/http-cache.interceptor';
+import { withInFlightGroup } from '../interceptors/in-flight.interceptor';
+import { normalizeApiError, toLoginError } from '../utils/api-error';
 
 export interface ErrorState {
   code: string;
   message: string;
   details?: Record<string, string>;
-  type: 'unauthorized' | 'validation' | 'server' | 'network';
+  type: 'unauthorized' | 'validation' | 'server' | 'network' | 'invalid_response';
   recoverable: boolean;
   timestamp: Date;
 }
@@ -35,9 +42,13 @@ export interface DashboardViewModel {
   providedIn: 'root',
 })
 export class DashboardService {
-  private readonly http = inject(HttpClient);
-  private readonly apiBaseUrl = 'http://localhost:3000/api';
-  private readonly cacheExpiryTime = 5 * 60 * 1000; // 5 minutes in milliseconds
+  private readonly api = inject(ApiClient);
+  private readonly apiConfig = inject(API_CONFIG);
+  private readonly httpCache = inject(HttpCacheService);
+  private readonly logger = inject(LoggerService).scoped('DASHBOARD');
+
+  // Kept in IndexedDB across reloads; the API's Cache-Control max-age takes precedence
+  private readonly cachePolicy = { ttlMs: 5 * 60 * 1000, staleWhileRevalidate: true };
 
   // Observable streams
   private dashboardData$ = new BehaviorSubject<DashboardDto | null>(null);
@@ -77,30 +88,30 @@ export class DashboardService {
 
   /**
    * Fetch dashboard data from API with optional query parameters
+   * A cached dashboard is emitted first when it has expired, followed by
+   * the revalidated one (see httpCacheInterceptor)
+   * Overlapping calls share one request; a call with another `since`
+   * cancels the pending one, whose subscribers complete without data
    */
   fetchDashboard(query?: DashboardQuery): Observable<DashboardDto> {
     this.loading$.next(true);
     this.error$.next(null);
 
-    let url = `${this.apiBaseUrl}/dashboard`;
-    let params = new HttpParams();
-
-    // if (query?.timezone) {
-    //   params = params.set('timezone', query.timezone);
-    // }
-    if (query?.since) {
-      params = params.set('since', query.since);
-    }  
-    console.log('fetchDashboard', url, params);
+    // timezone is not sent, the API falls back to the profile timezone
+    const dashboardQuery: DashboardQuery = { since: query?.since };
+    this.logger.debug('fetchDashboard', dashboardQuery);
 
-    return this.http.get<DashboardDto>(url, { params }).pipe(
-      timeout(5000), // 5-second timeout
+    return this.api.request('GET /dashboard', {
+      query: dashboardQuery,
+      context: withInFlightGroup('dashboard', withCache(this.cachePolicy)),
+    }).pipe(
+      timeout(this.apiConfig.timeoutMs),
       retry({
-        count: 2,
+        count: this.apiConfig.retryCount,
         delay: (error: any, retryCount: number) => {
           if (this.isRetryableError(error)) {
             const delayMs = Math.pow(2, retryCount - 1) * 1000;
-            console.log(
+            this.logger.info(
               `Retrying dashboard request, attempt ${retryCount}, delay ${delayMs}ms`
             );
             return timer(delayMs);
@@ -109,7 +120,7 @@ export class DashboardService {
         },
       }),
       tap((data) => {
-        console.log('fetchDashboard success', data);
+        this.logger.debug('fetchDashboard success', data);
         this.dashboardData$.next(data);
         this.lastRefreshTime$.next(new Date());
         this.error$.next(null);
@@ -125,23 +136,21 @@ export class DashboardService {
   }
 
   /**
-   * Refresh dashboard data if cache is stale
+   * Refresh dashboard data; answered from the HTTP cache while it is fresh
    */
   refreshDashboardIfNeeded(query?: DashboardQuery): void {
-    if (!this.isCacheValid()) {
-      this.fetchDashboard(query).subscribe({
-        error: (error) => {
-          console.error('Dashboard refresh failed:', error);
-        },
-      });
-    }
+    this.fetchDashboard(query).subscribe({
+      error: (error) => {
+        this.logger.error('Dashboard refresh failed', error);
+      },
+    });
   }
 
   /**
    * Invalidate dashboard cache
    */
   invalidateCache(): void {
-    this.lastRefreshTime$.next(null);
+    this.httpCache.invalidate('/dashboard');
   }
 
   /**
@@ -151,88 +160,51 @@ export class DashboardService {
     this.error$.next(null);
   }
 
-  /**
-   * Check if current cache is still valid (< 5 minutes old)
-   */
-  private isCacheValid(): boolean {
-    const lastRefresh = this.lastRefreshTime$.value;
-    if (!lastRefresh) return false;
-
-    const now = new Date();
-    const ageMs = now.getTime() - lastRefresh.getTime();
-    return ageMs < this.cacheExpiryTime;
-  }
-
   /**
    * Determine if an error is retryable
    */
-  private isRetryableError(error: any): boolean {
-    return (
-      error.status === 0 ||
-      error.name === 'TimeoutError' ||
-      error.status >= 500
-    );
+  private isRetryableError(error: unknown): boolean {
+    const { kind } = normalizeApiError(error);
+    return kind === 'network' || kind === 'timeout' || kind === 'server';
   }
 
   /**
-   * Handle HTTP errors and convert to ErrorState
+   * Normalize HTTP errors and convert to ErrorState
    */
-  private handleError(error: any): ErrorState {
-    console.error('Dashboard service error:', error);
-
-    // Network/timeout errors
-    if (error.status === 0 || error.name === 'TimeoutError') {
-      return {
-        code: 'NETWORK_ERROR',
-        message: 'Network connection lost. Please check your connection.',
-        type: 'network',
-        recoverable: true,
-        timestamp: new Date(),
-      };
-    }
+  private handleError(error: unknown): ErrorState {
+    this.logger.error('Dashboard service error', error);
 
-    // 401 Unauthorized
-    if (error.status === 401) {
-      return {
-        code: 'UNAUTHORIZED',
-        message: 'Your session has expired. Please log in again.',
-        type: 'unauthorized',
-        recoverable: false,
-        timestamp: new Date(),
-      };
-    }
+    const appError = normalizeApiError(error);
+    const { code, message } = toLoginError(appError, {
+      network: 'Network connection lost. Please check your connection.',
+      timeout: 'Network connection lost. Please check your connection.',
+      validation: 'Invalid query parameters. Please try again.',
+    });
 
-    // 400 Bad Request / Validation Error
-    if (error.status === 400) {
-      const details = error.error?.error?.details || {};
-      return {
-        code: 'VALIDATION_ERROR',
-        message: 'Invalid query parameters. Please try again.',
-        details: details,
-        type: 'validation',
-        recoverable: true,
-        timestamp: new Date(),
-      };
-    }
-
-    // 5xx Server errors
-    if (error.status >= 500) {
-      return {
-        code: 'SERVER_ERROR',
-        message: 'An unexpected error occurred. Please try again later.',
-        type: 'server',
-        recoverable: true,
-        timestamp: new Date(),
-      };
-    }
-
-    // Unknown/other errors
     return {
-      code: 'UNKNOWN_ERROR',
-      message: 'An unexpected error occurred. Please try again.',
-      type: 'server',
-      recoverable: true,
+      code,
+      message,
+      details: appError.fieldErrors,
+      type: this.getErrorType(appError.kind),
+      recoverable: appError.kind !== 'unauthorized',
       timestamp: new Date(),
     };
   }
+
+  private getErrorType(kind: AppErrorKind): ErrorState['type'] {
+    switch (kind) {
+      case 'unauthorized':
+        return 'unauthorized';
+      case 'validation':
+      case 'unprocessable':
+        return 'validation';
+      case 'network':
+      case 'timeout':
+        return 'network';
+      case 'invalid_response':
+        return 'invalid_response';
+      default:
+        return 'server';
+    }
+  }
 }
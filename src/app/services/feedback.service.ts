@@ -0,0 +1,27 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { OfflineWriteResult, ReportFeedbackDto, SubmitFeedbackCommand } from '../../types';
+import { OfflineSyncService } from './offline-sync.service';
+
+/**
+ * FeedbackService
+ *
+ * Report feedback writes, queued by OfflineSyncService when offline.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class FeedbackService {
+  private readonly offlineSync = inject(OfflineSyncService);
+
+  /**
+   * Rate a report (-1, 0 or 1)
+   * @param upsert - Replace existing feedback instead of failing with 409
+   */
+  submitFeedback(
+    command: SubmitFeedbackCommand,
+    upsert = false
+  ): Observable<OfflineWriteResult<ReportFeedbackDto>> {
+    return this.offlineSync.submit({ kind: 'submit_feedback', body: command, upsert });
+  }
+}
@@ -0,0 +1,133 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpHeaders, HttpResponse } from '@angular/common/http';
+import { API_CONFIG } from '../config/api.config';
+import { IndexedDbStore } from '../utils/indexed-db-store';
+import { LoggerService } from './logger.service';
+import { HttpCacheEntry, HttpCachePolicy } from '../../types';
+
+/**
+ * HttpCacheService
+ *
+ * Responses cached by httpCacheInterceptor, persisted in IndexedDB so they
+ * survive reloads.
+ * - Freshness comes from `Cache-Control: max-age`, falling back to the
+ *   request's HttpCachePolicy; `no-store` responses are never kept and
+ *   `no-cache` ones are revalidated on every use
+ * - Entries are invalidated by path after writes and cleared on logout
+ */
+@Injectable({ providedIn: 'root' })
+export class HttpCacheService {
+  private readonly apiConfig = inject(API_CONFIG);
+  private readonly logger = inject(LoggerService).scoped('HTTP CACHE');
+  private readonly store = new IndexedDbStore<HttpCacheEntry>('life-sync-http-cache');
+
+  // Deletes run asynchronously, entries stored before these times are ignored meanwhile
+  private readonly invalidatedAt = new Map<string, number>();
+  private clearedAt = 0;
+
+  async get(url: string): Promise<HttpCacheEntry | undefined> {
+    try {
+      const entry = await this.store.get(url);
+      return entry && !this.isInvalidated(entry) ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Keep a 200 response, unless its Cache-Control forbids storing it
+   */
+  save(url: string, response: HttpResponse<unknown>, policy: HttpCachePolicy): void {
+    const maxAgeMs = this.getMaxAgeMs(response.headers, policy);
+    if (maxAgeMs === null) {
+      this.store.delete(url).catch(() => undefined);
+      return;
+    }
+
+    const now = Date.now();
+    this.put({
+      url,
+      body: response.body,
+      etag: response.headers.get('ETag'),
+      storedAt: now,
+      expiresAt: now + maxAgeMs,
+    });
+  }
+
+  /**
+   * Extend an entry the API confirmed unchanged (304 Not Modified)
+   */
+  revalidated(entry: HttpCacheEntry, headers: HttpHeaders, policy: HttpCachePolicy): HttpCacheEntry {
+    const now = Date.now();
+    const refreshed: HttpCacheEntry = {
+      ...entry,
+      etag: headers.get('ETag') ?? entry.etag,
+      storedAt: now,
+      expiresAt: now + (this.getMaxAgeMs(headers, policy) ?? 0),
+    };
+    this.put(refreshed);
+    return refreshed;
+  }
+
+  /**
+   * Drop cached responses of an API path and everything below it,
+   * e.g. `invalidate('/dashboard')` after a note is created
+   */
+  invalidate(...paths: string[]): void {
+    const now = Date.now();
+    const prefixes = paths.map((path) => `${this.apiConfig.baseUrl}${path}`);
+    prefixes.forEach((prefix) => this.invalidatedAt.set(prefix, now));
+
+    this.store
+      .getAll()
+      .then((entries) =>
+        Promise.all(
+          entries
+            .filter(
+              (entry) => entry.storedAt <= now && prefixes.some((prefix) => isWithinPath(entry.url, prefix))
+            )
+            .map((entry) => this.store.delete(entry.url))
+        )
+      )
+      .catch((error) => this.logger.error('Failed to invalidate entries', error));
+  }
+
+  /**
+   * Drop every cached response, e.g. on logout
+   */
+  clear(): void {
+    this.clearedAt = Date.now();
+    this.invalidatedAt.clear();
+    this.store.clear().catch((error) => this.logger.error('Failed to clear', error));
+  }
+
+  private isInvalidated(entry: HttpCacheEntry): boolean {
+    if (entry.storedAt <= this.clearedAt) return true;
+    return [...this.invalidatedAt].some(
+      ([prefix, time]) => entry.storedAt <= time && isWithinPath(entry.url, prefix)
+    );
+  }
+
+  private put(entry: HttpCacheEntry): void {
+    this.store.put(entry.url, entry).catch((error) => this.logger.error('Failed to save entry', error));
+  }
+
+  /**
+   * Freshness lifetime in ms, null when the response must not be stored
+   */
+  private getMaxAgeMs(headers: HttpHeaders, policy: HttpCachePolicy): number | null {
+    const directives = (headers.get('Cache-Control') ?? '').toLowerCase().split(',').map((part) => part.trim());
+
+    if (directives.includes('no-store')) return null;
+    if (directives.includes('no-cache')) return 0;
+
+    const maxAge = directives.find((directive) => directive.startsWith('max-age='));
+    const seconds = maxAge ? Number(maxAge.slice('max-age='.length)) : NaN;
+    return Number.isFinite(seconds) ? seconds * 1000 : policy.ttlMs;
+  }
+}
+
+// `/api/notes` covers `/api/notes?limit=5` and `/api/notes/1`, not `/api/notes-archive`
+function isWithinPath(url: string, prefix: string): boolean {
+  return url === prefix || (url.startsWith(prefix) && ['/', '?'].includes(url[prefix.length]));
+}
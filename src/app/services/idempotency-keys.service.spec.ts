@@ -0,0 +1,71 @@
+import { TestBed } from '@angular/core/testing';
+import { IdempotencyKeysService } from './idempotency-keys.service';
+import { MemoryStorageBackend, TOKEN_STORAGE_BACKENDS } from './token-storage.service';
+
+describe('IdempotencyKeysService', () => {
+  let service: IdempotencyKeysService;
+  let local: MemoryStorageBackend;
+
+  beforeEach(() => {
+    local = new MemoryStorageBackend();
+    TestBed.configureTestingModule({
+      providers: [
+        {
+          provide: TOKEN_STORAGE_BACKENDS,
+          useValue: { local, session: new MemoryStorageBackend(), memory: new MemoryStorageBackend() },
+        },
+      ],
+    });
+    service = TestBed.inject(IdempotencyKeysService);
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('should reuse the key of a pending request', () => {
+    const key = service.acquire('POST /notes a');
+
+    expect(service.acquire('POST /notes a')).toBe(key);
+    expect(service.acquire('POST /notes b')).not.toBe(key);
+  });
+
+  it('should issue a new key once the request is released', () => {
+    const key = service.acquire('POST /notes a');
+    service.release('POST /notes a');
+
+    expect(service.acquire('POST /notes a')).not.toBe(key);
+  });
+
+  it('should keep keys in storage across service instances', () => {
+    const key = service.acquire('POST /notes a');
+    const reloaded = TestBed.runInInjectionContext(() => new IdempotencyKeysService());
+
+    expect(reloaded.acquire('POST /notes a')).toBe(key);
+  });
+
+  it('should expire keys after a day', () => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date('2026-01-01T00:00:00Z'));
+    const key = service.acquire('POST /notes a');
+
+    jasmine.clock().tick(24 * 60 * 60 * 1000 + 1);
+
+    expect(service.acquire('POST /notes a')).not.toBe(key);
+  });
+
+  it('should remove the storage entry when no key is pending', () => {
+    service.acquire('POST /notes a');
+    service.release('POST /notes a');
+
+    expect(local.getItem('idempotency_keys')).toBeNull();
+  });
+
+  it('should forget all keys on clear', () => {
+    const key = service.acquire('POST /notes a');
+    service.clear();
+
+    expect(local.getItem('idempotency_keys')).toBeNull();
+    expect(service.acquire('POST /notes a')).not.toBe(key);
+  });
+});
@@ -0,0 +1,75 @@
+import { Injectable, inject } from '@angular/core';
+import { TOKEN_STORAGE_BACKENDS } from './token-storage.service';
+import { IdempotencyKeyRecord } from '../../types';
+
+/**
+ * IdempotencyKeysService
+ *
+ * Idempotency-Key values for requests that have not settled yet.
+ * - One key per user intent: the same request (method, URL and body) gets
+ *   the same key until it succeeds or fails for good
+ * - Keys are kept in localStorage, so a retry after a reload is still
+ *   recognized by the API as the same operation
+ * - Keys left behind by abandoned requests expire after a day
+ */
+@Injectable({ providedIn: 'root' })
+export class IdempotencyKeysService {
+  // Kept in localStorage regardless of "remember me"
+  private readonly storage = inject(TOKEN_STORAGE_BACKENDS).local;
+
+  private readonly STORAGE_KEY = 'idempotency_keys';
+  private readonly KEY_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
+
+  /**
+   * Key for a request, reusing the pending one when there is one
+   * @param fingerprint - Identifies the request, see fingerprintRequest()
+   */
+  acquire(fingerprint: string): string {
+    const records = this.readRecords();
+    const existing = records[fingerprint];
+    if (existing) {
+      return existing.key;
+    }
+
+    const record: IdempotencyKeyRecord = { key: crypto.randomUUID(), createdAt: Date.now() };
+    this.writeRecords({ ...records, [fingerprint]: record });
+    return record.key;
+  }
+
+  /**
+   * Forget the key once the request has settled; the next identical
+   * request is a new intent and gets a new key
+   */
+  release(fingerprint: string): void {
+    const { [fingerprint]: _released, ...records } = this.readRecords();
+    this.writeRecords(records);
+  }
+
+  /**
+   * Forget all keys, e.g. on logout
+   */
+  clear(): void {
+    this.storage.removeItem(this.STORAGE_KEY);
+  }
+
+  private readRecords(): Record<string, IdempotencyKeyRecord> {
+    try {
+      const raw = this.storage.getItem(this.STORAGE_KEY);
+      const records: Record<string, IdempotencyKeyRecord> = raw ? JSON.parse(raw) : {};
+      const cutoff = Date.now() - this.KEY_TTL_MS;
+      return Object.fromEntries(
+        Object.entries(records).filter(([, record]) => record.createdAt > cutoff)
+      );
+    } catch {
+      return {};
+    }
+  }
+
+  private writeRecords(records: Record<string, IdempotencyKeyRecord>): void {
+    if (Object.keys(records).length === 0) {
+      this.storage.removeItem(this.STORAGE_KEY);
+      return;
+    }
+    this.storage.setItem(this.STORAGE_KEY, JSON.stringify(records));
+  }
+}
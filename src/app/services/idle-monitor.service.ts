@@ -0,0 +1,217 @@
+import {
+  Injectable,
+  InjectionToken,
+  NgZone,
+  OnDestroy,
+  inject,
+  signal,
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { Subscription, fromEvent, interval, merge } from 'rxjs';
+import { AuthService } from './auth.service';
+import { TOKEN_STORAGE_BACKENDS } from './token-storage.service';
+import { isAuthGuarded } from '../guards/auth.guard';
+
+export type IdleTimeoutConfig = {
+  idleTimeoutMs: number; // Inactivity after which the user is logged out
+  warningMs: number; // How long before logout the countdown warning is shown
+};
+
+export const DEFAULT_IDLE_TIMEOUT_CONFIG: IdleTimeoutConfig = {
+  idleTimeoutMs: 15 * 60 * 1000, // 15 minutes
+  warningMs: 60 * 1000, // 1 minute
+};
+
+/**
+ * Idle timeout configuration, override in app.config providers:
+ * `{ provide: IDLE_TIMEOUT_CONFIG, useValue: { idleTimeoutMs, warningMs } }`
+ */
+export const IDLE_TIMEOUT_CONFIG = new InjectionToken<IdleTimeoutConfig>(
+  'IDLE_TIMEOUT_CONFIG',
+  {
+    providedIn: 'root',
+    factory: (): IdleTimeoutConfig => DEFAULT_IDLE_TIMEOUT_CONFIG,
+  }
+);
+
+/**
+ * IdleMonitorService
+ *
+ * Logs the user out after a period of inactivity on authenticated routes.
+ * - Tracks mouse, keyboard, scroll and touch activity outside Angular's zone
+ * - Shares the last activity time across tabs, so an idle tab does not
+ *   log out a tab the user is actively working in
+ * - The last activity time survives reloads: a remembered session left idle
+ *   past the limit is ended when the app starts
+ * - Exposes a countdown (warningVisible/secondsRemaining) for the warning dialog
+ * - On expiry, logs out and redirects to /login with the same returnUrl
+ *   query param authGuard uses
+ */
+@Injectable({ providedIn: 'root' })
+export class IdleMonitorService implements OnDestroy {
+  private readonly authService = inject(AuthService);
+  private readonly router = inject(Router);
+  private readonly ngZone = inject(NgZone);
+  private readonly config = inject(IDLE_TIMEOUT_CONFIG);
+  // Activity is shared through localStorage even for tab-only sessions,
+  // and persisted there across reloads
+  private readonly sharedStorage = inject(TOKEN_STORAGE_BACKENDS).local;
+
+  private readonly ACTIVITY_EVENTS = [
+    'mousemove',
+    'mousedown',
+    'keydown',
+    'wheel',
+    'scroll',
+    'touchstart',
+  ];
+  private readonly LAST_ACTIVITY_KEY = 'last_activity_at';
+  private readonly CHECK_INTERVAL_MS = 1000;
+  private readonly ACTIVITY_PERSIST_THROTTLE_MS = 5000;
+
+  private readonly warningVisibleSignal = signal(false);
+  private readonly secondsRemainingSignal = signal(0);
+
+  // Public signal accessors
+  readonly warningVisible = this.warningVisibleSignal.asReadonly();
+  readonly secondsRemaining = this.secondsRemainingSignal.asReadonly();
+
+  private lastActivity = Date.now();
+  private lastPersistedActivity = 0;
+  private subscription: Subscription | null = null;
+
+  /**
+   * Start tracking activity; safe to call more than once, no-op outside the browser
+   */
+  start(): void {
+    if (this.subscription || typeof window === 'undefined') {
+      return;
+    }
+
+    const persisted = this.getPersistedActivity();
+    if (persisted) {
+      this.lastActivity = persisted;
+    }
+    if (this.authService.isAuthenticated() && Date.now() - this.lastActivity >= this.config.idleTimeoutMs) {
+      // Called before the first navigation, authGuard takes care of the redirect
+      this.authService.logout();
+    }
+
+    // Activity events fire constantly, keep them from triggering change detection
+    this.ngZone.runOutsideAngular(() => {
+      const activity$ = merge(
+        ...this.ACTIVITY_EVENTS.map((eventName) =>
+          fromEvent(document, eventName, { capture: true, passive: true })
+        )
+      );
+
+      this.subscription = activity$.subscribe(() => this.recordActivity());
+      this.subscription.add(
+        interval(this.CHECK_INTERVAL_MS).subscribe(() => this.checkIdle())
+      );
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  /**
+   * Dismiss the warning and restart the idle timer ("Stay signed in")
+   */
+  stayActive(): void {
+    this.warningVisibleSignal.set(false);
+    this.markActive(true);
+  }
+
+  /**
+   * End the session immediately from the warning dialog, as an explicit sign-out
+   */
+  logoutNow(): void {
+    this.expireSession(true);
+  }
+
+  private recordActivity(): void {
+    // Once the warning is visible only an explicit "Stay signed in" counts
+    if (this.warningVisibleSignal()) {
+      return;
+    }
+    this.markActive(false);
+  }
+
+  private markActive(force: boolean): void {
+    const now = Date.now();
+    this.lastActivity = now;
+
+    if (force || now - this.lastPersistedActivity >= this.ACTIVITY_PERSIST_THROTTLE_MS) {
+      this.sharedStorage.setItem(this.LAST_ACTIVITY_KEY, String(now));
+      this.lastPersistedActivity = now;
+    }
+  }
+
+  /**
+   * Most recent activity in this tab or any other tab
+   */
+  private getLastActivity(): number {
+    return Math.max(this.lastActivity, this.getPersistedActivity());
+  }
+
+  private getPersistedActivity(): number {
+    return Number(this.sharedStorage.getItem(this.LAST_ACTIVITY_KEY)) || 0;
+  }
+
+  private checkIdle(): void {
+    // Signed out, the clock starts over with the next session
+    if (!this.authService.isAuthenticated()) {
+      this.lastActivity = Date.now();
+    }
+
+    const isMonitored =
+      this.authService.isAuthenticated() &&
+      isAuthGuarded(this.router.routerState.snapshot.root);
+
+    if (!isMonitored) {
+      if (this.warningVisibleSignal()) {
+        this.ngZone.run(() => this.warningVisibleSignal.set(false));
+      }
+      return;
+    }
+
+    const remainingMs =
+      this.config.idleTimeoutMs - (Date.now() - this.getLastActivity());
+
+    if (remainingMs <= 0) {
+      this.ngZone.run(() => this.expireSession());
+      return;
+    }
+
+    if (remainingMs <= this.config.warningMs) {
+      this.ngZone.run(() => {
+        this.warningVisibleSignal.set(true);
+        this.secondsRemainingSignal.set(Math.ceil(remainingMs / 1000));
+      });
+    } else if (this.warningVisibleSignal()) {
+      // The user was active in another tab, the session has been extended
+      this.ngZone.run(() => this.warningVisibleSignal.set(false));
+    }
+  }
+
+  /**
+   * @param signOut - The user chose to sign out, see AuthService.signOut()
+   */
+  private expireSession(signOut = false): void {
+    const returnUrl = this.router.url;
+
+    this.warningVisibleSignal.set(false);
+    if (signOut) {
+      this.authService.signOut();
+    } else {
+      this.authService.logout();
+    }
+
+    this.router.navigate(['/login'], {
+      queryParams: { returnUrl },
+    });
+  }
+}
@@ -0,0 +1,88 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpEvent, HttpResponse } from '@angular/common/http';
+import { Observable, Subject } from 'rxjs';
+import { InFlightRequestsService } from './in-flight-requests.service';
+
+describe('InFlightRequestsService', () => {
+  let service: InFlightRequestsService;
+  let response$: Subject<HttpEvent<unknown>>;
+  let send: jasmine.Spy<() => Observable<HttpEvent<unknown>>>;
+
+  beforeEach(() => {
+    service = TestBed.inject(InFlightRequestsService);
+    response$ = new Subject<HttpEvent<unknown>>();
+    send = jasmine.createSpy('send').and.callFake(() => response$);
+  });
+
+  it('should share one call between concurrent callers', () => {
+    const received: unknown[] = [];
+    service.join('GET /notes', null, send).subscribe((event) => received.push(event));
+    service.join('GET /notes', null, send).subscribe((event) => received.push(event));
+
+    response$.next(new HttpResponse({ body: 1 }));
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(received.length).toBe(2);
+  });
+
+  it('should replay events already emitted to a late caller', () => {
+    service.join('GET /dashboard', null, send).subscribe();
+    response$.next(new HttpResponse({ body: 'stale' }));
+
+    const received: unknown[] = [];
+    service.join('GET /dashboard', null, send).subscribe((event) => received.push(event));
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect((received[0] as HttpResponse<string>).body).toBe('stale');
+  });
+
+  it('should start a new call once the previous one settled', () => {
+    service.join('GET /notes', null, send).subscribe();
+    response$.complete();
+    response$ = new Subject<HttpEvent<unknown>>();
+
+    service.join('GET /notes', null, send).subscribe();
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cancel other requests of the same group', () => {
+    let completed = false;
+    const received: unknown[] = [];
+    service.join('GET /dashboard?since=a', 'dashboard', send).subscribe({
+      next: (event) => received.push(event),
+      complete: () => (completed = true),
+    });
+
+    service.join('GET /dashboard?since=b', 'dashboard', () => new Subject<HttpEvent<unknown>>()).subscribe();
+    response$.next(new HttpResponse({ body: 'a' }));
+
+    expect(completed).toBeTrue();
+    expect(received).toEqual([]);
+    expect(response$.observed).toBeFalse();
+  });
+
+  it('should abort the call once all callers unsubscribe', () => {
+    const first = service.join('GET /notes', null, send).subscribe();
+    const second = service.join('GET /notes', null, send).subscribe();
+
+    first.unsubscribe();
+    expect(response$.observed).toBeTrue();
+
+    second.unsubscribe();
+    expect(response$.observed).toBeFalse();
+  });
+
+  it('should not share pending calls after clear, but let them settle', () => {
+    const received: unknown[] = [];
+    service.join('GET /me', null, send).subscribe((event) => received.push(event));
+
+    service.clear();
+    const sendAgain = jasmine.createSpy('sendAgain').and.callFake(() => new Subject<HttpEvent<unknown>>());
+    service.join('GET /me', null, sendAgain).subscribe();
+    response$.next(new HttpResponse({ status: 401 }));
+
+    expect(sendAgain).toHaveBeenCalledTimes(1);
+    expect(received.length).toBe(1);
+  });
+});
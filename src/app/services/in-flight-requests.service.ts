@@ -0,0 +1,91 @@
+import { Injectable } from '@angular/core';
+import { HttpEvent } from '@angular/common/http';
+import { Observable, ReplaySubject, Subject, defer, share } from 'rxjs';
+import { finalize, takeUntil } from 'rxjs/operators';
+
+type InFlightRequest = {
+  key: string;
+  group: string | null;
+  cancel$: Subject<void>;
+  events$: Observable<HttpEvent<unknown>>;
+};
+
+/**
+ * InFlightRequestsService
+ *
+ * Registry of GET requests that have not settled yet, used by
+ * inFlightInterceptor.
+ * - Concurrent callers of the same request share one call; callers joining
+ *   late get the events already emitted (e.g. a stale cached response)
+ * - Starting a request of a group cancels the group's other requests;
+ *   their callers complete without a response
+ * - A request is aborted once all of its callers unsubscribe
+ */
+@Injectable({ providedIn: 'root' })
+export class InFlightRequestsService {
+  private readonly requests = new Map<string, InFlightRequest>();
+
+  /**
+   * Join the pending request for `key`, or start it with `send`
+   *
+   * @param key - Identifies the request, e.g. method and URL with query
+   * @param group - Requests superseded by this one when their key differs
+   */
+  join(
+    key: string,
+    group: string | null,
+    send: () => Observable<HttpEvent<unknown>>
+  ): Observable<HttpEvent<unknown>> {
+    const pending = this.requests.get(key);
+    if (pending) {
+      return pending.events$;
+    }
+
+    if (group !== null) {
+      this.cancelGroup(group);
+    }
+
+    const cancel$ = new Subject<void>();
+    const request: InFlightRequest = {
+      key,
+      group,
+      cancel$,
+      events$: defer(send).pipe(
+        takeUntil(cancel$),
+        finalize(() => this.remove(request)),
+        share({
+          connector: () => new ReplaySubject<HttpEvent<unknown>>(),
+          resetOnError: true,
+          resetOnComplete: true,
+          resetOnRefCountZero: true,
+        })
+      ),
+    };
+    this.requests.set(key, request);
+    return request.events$;
+  }
+
+  /**
+   * Stop sharing pending requests with new callers, e.g. on logout
+   * They still settle for their current subscribers, so a 401 that ended
+   * the session reaches them
+   */
+  clear(): void {
+    this.requests.clear();
+  }
+
+  private cancelGroup(group: string): void {
+    [...this.requests.values()].filter((request) => request.group === group).forEach((request) => {
+      this.remove(request);
+      request.cancel$.next();
+      request.cancel$.complete();
+    });
+  }
+
+  // A finished request must not remove a newer one registered under its key
+  private remove(request: InFlightRequest): void {
+    if (this.requests.get(request.key) === request) {
+      this.requests.delete(request.key);
+    }
+  }
+}
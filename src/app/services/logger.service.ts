@@ -0,0 +1,123 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { LOGGING_CONFIG, LOG_LEVELS, LOG_SINK } from '../config/logging.config';
+import { writeToConsole } from '../utils/log-sinks';
+import { redact, redactText } from '../utils/redact';
+import { LogEntry, LogLevel } from '../../types';
+
+// Logging methods, bound to a scope by LoggerService.scoped()
+export type Logger = Record<LogLevel, (message: string, context?: unknown) => void>;
+
+/**
+ * LoggerService
+ *
+ * Structured client logging, in place of direct console calls.
+ * - Entries below the environment's `minLevel` are dropped
+ * - Messages and context are redacted (emails, tokens, note content)
+ *   before they are written anywhere
+ * - Debug and info go to the console at once; warnings and errors are
+ *   shipped to LOG_SINK in batches, when `batchSize` is reached, after
+ *   `flushIntervalMs` and when the page is hidden
+ *
+ * `private readonly logger = inject(LoggerService).scoped('SYNC');`
+ */
+@Injectable({ providedIn: 'root' })
+export class LoggerService implements OnDestroy {
+  private readonly config = inject(LOGGING_CONFIG);
+  private readonly sink = inject(LOG_SINK);
+
+  private buffer: LogEntry[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Ship what is left before the tab is closed or sent to the background
+  private readonly flushOnHide = (): void => this.flush();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.flushOnHide);
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.flushOnHide);
+    }
+    this.flush();
+  }
+
+  debug(message: string, context?: unknown): void {
+    this.log('debug', null, message, context);
+  }
+
+  info(message: string, context?: unknown): void {
+    this.log('info', null, message, context);
+  }
+
+  warn(message: string, context?: unknown): void {
+    this.log('warn', null, message, context);
+  }
+
+  error(message: string, context?: unknown): void {
+    this.log('error', null, message, context);
+  }
+
+  /**
+   * Logger tagging its entries with a feature scope, e.g. 'AUTH'
+   */
+  scoped(scope: string): Logger {
+    return {
+      debug: (message, context) => this.log('debug', scope, message, context),
+      info: (message, context) => this.log('info', scope, message, context),
+      warn: (message, context) => this.log('warn', scope, message, context),
+      error: (message, context) => this.log('error', scope, message, context),
+    };
+  }
+
+  /**
+   * Ship buffered warnings and errors now
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    const entries = this.buffer;
+    this.buffer = [];
+    try {
+      this.sink.write(entries);
+    } catch (error) {
+      // A broken sink must not take the app down, nor lose the entries silently
+      entries.forEach(writeToConsole);
+      console.error('[LOGGER] Log sink failed:', error);
+    }
+  }
+
+  private log(level: LogLevel, scope: string | null, message: string, context: unknown): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.config.minLevel)) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      level,
+      scope,
+      message: redactText(message),
+      ...(context !== undefined && { context: redact(context) }),
+      timestamp: new Date().toISOString(),
+    };
+
+    if (level === 'debug' || level === 'info') {
+      writeToConsole(entry);
+      return;
+    }
+
+    this.buffer.push(entry);
+    if (this.buffer.length >= this.config.batchSize) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.config.flushIntervalMs);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { Injectable, OnDestroy, inject, signal } from '@angular/core';
+import { Subscription, timer } from 'rxjs';
+import { TOKEN_STORAGE_BACKENDS } from './token-storage.service';
+import { LoginAttemptRecord } from '../../types';
+
+/**
+ * LoginAttemptsService
+ *
+ * Client-side sign-in lockout, on top of the server's rate limiting.
+ * - A 429 locks sign-in for `retryAfter` seconds from the error body
+ * - Repeated wrong passwords lock sign-in locally before the server does
+ * - The record is kept in localStorage, so reloading the page or opening
+ *   a new tab does not lift the lockout
+ * - Exposes a live countdown (lockoutSeconds) for the login form
+ */
+@Injectable({ providedIn: 'root' })
+export class LoginAttemptsService implements OnDestroy {
+  // Kept in localStorage regardless of "remember me"
+  private readonly storage = inject(TOKEN_STORAGE_BACKENDS).local;
+
+  private readonly STORAGE_KEY = 'login_attempts';
+  private readonly MAX_FAILED_ATTEMPTS = 5;
+  private readonly FAILURE_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+  private readonly LOCAL_LOCKOUT_SECONDS = 5 * 60;
+
+  private readonly lockoutSecondsSignal = signal(0);
+
+  // Seconds until sign-in is allowed again, 0 when not locked
+  readonly lockoutSeconds = this.lockoutSecondsSignal.asReadonly();
+
+  private countdownSubscription: Subscription | null = null;
+
+  constructor() {
+    // Resume a lockout started before the reload
+    this.startCountdown(this.readRecord()?.lockedUntil ?? null);
+  }
+
+  ngOnDestroy(): void {
+    this.countdownSubscription?.unsubscribe();
+  }
+
+  /**
+   * Count a rejected password; locks sign-in after too many failures
+   */
+  recordFailure(): void {
+    const now = Date.now();
+    const previous = this.readRecord();
+    const withinWindow =
+      !!previous && now - previous.lastAttemptTime < this.FAILURE_WINDOW_MS;
+    const failedAttempts = (withinWindow ? previous.failedAttempts : 0) + 1;
+
+    const lockedUntil =
+      failedAttempts >= this.MAX_FAILED_ATTEMPTS
+        ? now + this.LOCAL_LOCKOUT_SECONDS * 1000
+        : null;
+
+    this.writeRecord({ failedAttempts, lastAttemptTime: now, lockedUntil });
+    this.startCountdown(lockedUntil);
+  }
+
+  /**
+   * Lock sign-in as instructed by the server (429)
+   * @param retryAfterSeconds - `retryAfter` from the error body
+   */
+  lockFor(retryAfterSeconds: number): void {
+    const now = Date.now();
+    const lockedUntil = now + retryAfterSeconds * 1000;
+
+    this.writeRecord({
+      failedAttempts: this.readRecord()?.failedAttempts ?? 0,
+      lastAttemptTime: now,
+      lockedUntil,
+    });
+    this.startCountdown(lockedUntil);
+  }
+
+  /**
+   * Forget failures after a successful sign-in
+   */
+  reset(): void {
+    this.storage.removeItem(this.STORAGE_KEY);
+    this.startCountdown(null);
+  }
+
+  private startCountdown(lockedUntil: number | null): void {
+    this.countdownSubscription?.unsubscribe();
+    this.countdownSubscription = null;
+
+    const remaining = this.secondsUntil(lockedUntil);
+    this.lockoutSecondsSignal.set(remaining);
+    if (remaining === 0) return;
+
+    // Derived from the wall clock, so a throttled background tab stays accurate
+    this.countdownSubscription = timer(1000, 1000).subscribe(() => {
+      const seconds = this.secondsUntil(lockedUntil);
+      this.lockoutSecondsSignal.set(seconds);
+      if (seconds === 0) {
+        this.countdownSubscription?.unsubscribe();
+      }
+    });
+  }
+
+  private secondsUntil(time: number | null): number {
+    return time ? Math.max(Math.ceil((time - Date.now()) / 1000), 0) : 0;
+  }
+
+  private readRecord(): LoginAttemptRecord | null {
+    try {
+      const raw = this.storage.getItem(this.STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as LoginAttemptRecord) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeRecord(record: LoginAttemptRecord): void {
+    this.storage.setItem(this.STORAGE_KEY, JSON.stringify(record));
+  }
+}
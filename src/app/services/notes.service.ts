@@ -0,0 +1,31 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { CreateNoteCommand, NoteDto, OfflineWriteResult, UUID, UpdateNoteCommand } from '../../types';
+import { OfflineSyncService } from './offline-sync.service';
+
+/**
+ * NotesService
+ *
+ * Note writes. Without connectivity they are queued by OfflineSyncService
+ * and reported as `queued`, so the note is not lost.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class NotesService {
+  private readonly offlineSync = inject(OfflineSyncService);
+
+  /**
+   * Create a note (at most `max_daily_notes` per category per day)
+   */
+  createNote(command: CreateNoteCommand): Observable<OfflineWriteResult<NoteDto>> {
+    return this.offlineSync.submit({ kind: 'create_note', body: command });
+  }
+
+  /**
+   * Update a note's title, content or category
+   */
+  updateNote(noteId: UUID, command: UpdateNoteCommand): Observable<OfflineWriteResult<NoteDto>> {
+    return this.offlineSync.submit({ kind: 'update_note', noteId, body: command });
+  }
+}
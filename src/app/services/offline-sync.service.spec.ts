@@ -0,0 +1,181 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { firstValueFrom } from 'rxjs';
+import { OfflineSyncService } from './offline-sync.service';
+import { AuthService } from './auth.service';
+import { HttpCacheService } from './http-cache.service';
+import { API_CONFIG, ApiConfig } from '../config/api.config';
+import { PendingWrite } from '../../types';
+
+const API_URL = '/api';
+
+const API_CONFIG_STUB: ApiConfig = {
+  baseUrl: API_URL,
+  timeoutMs: 10000,
+  maxRequestTimeoutMs: 30000,
+  retryCount: 0,
+  responseValidationSampleRate: 0,
+};
+
+function createNote(title: string): PendingWrite {
+  return { kind: 'create_note', body: { category_id: 'category-1', title, content: 'Slept badly' } };
+}
+
+describe('OfflineSyncService', () => {
+  let service: OfflineSyncService;
+  let httpMock: HttpTestingController;
+  let httpCache: jasmine.SpyObj<HttpCacheService>;
+  const userId = signal<string | null>('user-1');
+
+  beforeEach(() => {
+    userId.set('user-1');
+    httpCache = jasmine.createSpyObj<HttpCacheService>('HttpCacheService', ['invalidate']);
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: API_CONFIG, useValue: API_CONFIG_STUB },
+        { provide: AuthService, useValue: { userId } },
+        { provide: HttpCacheService, useValue: httpCache },
+      ],
+    });
+    service = TestBed.inject(OfflineSyncService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    service.clear('user-1');
+    service.clear('user-2');
+    httpMock.verify();
+  });
+
+  // Queue a write by failing its first attempt with a network error
+  async function queue(write: PendingWrite): Promise<void> {
+    const result = firstValueFrom(service.submit(write));
+    httpMock.expectOne(`${API_URL}/notes`).error(new ProgressEvent('error'));
+    expect(await result).toEqual(jasmine.objectContaining({ queued: true }));
+  }
+
+  it('should send a write when online', async () => {
+    const result = firstValueFrom(service.submit(createNote('Monday')));
+
+    const req = httpMock.expectOne(`${API_URL}/notes`);
+    expect(req.request.body).toEqual(createNote('Monday').body);
+    req.flush({ id: 'note-1' });
+
+    expect(await result).toEqual({ queued: false, result: jasmine.objectContaining({ id: 'note-1' }) });
+    expect(service.items()).toEqual([]);
+    expect(httpCache.invalidate).toHaveBeenCalledWith('/notes', '/dashboard');
+  });
+
+  it('should queue a write that fails with a network error', async () => {
+    await queue(createNote('Monday'));
+
+    expect(service.items().length).toBe(1);
+    expect(service.items()[0]).toEqual(
+      jasmine.objectContaining({ status: 'pending', userId: 'user-1', write: createNote('Monday') })
+    );
+    expect(service.pendingCount()).toBe(1);
+  });
+
+  it('should not queue other failures', async () => {
+    const result = firstValueFrom(service.submit(createNote('Monday')));
+
+    httpMock.expectOne(`${API_URL}/notes`).flush({}, { status: 409, statusText: 'Conflict' });
+
+    await expectAsync(result).toBeRejected();
+    expect(service.items()).toEqual([]);
+  });
+
+  it('should replay a queued write and remove it once sent', async () => {
+    await queue(createNote('Monday'));
+
+    service.replay();
+    const req = httpMock.expectOne(`${API_URL}/notes`);
+    expect(req.request.body).toEqual(createNote('Monday').body);
+    req.flush({ id: 'note-1' });
+
+    expect(service.items()).toEqual([]);
+    expect(service.isSyncing()).toBeFalse();
+  });
+
+  it('should keep a rejected write and continue with the next one', async () => {
+    await queue(createNote('Monday'));
+    await queue(createNote('Tuesday'));
+
+    service.replay();
+    httpMock.expectOne(`${API_URL}/notes`).flush({}, { status: 409, statusText: 'Conflict' });
+    httpMock.expectOne(`${API_URL}/notes`).flush({ id: 'note-2' });
+
+    expect(service.items().length).toBe(1);
+    expect(service.rejectedItems()[0]).toEqual(
+      jasmine.objectContaining({ status: 'conflict', write: createNote('Monday') })
+    );
+  });
+
+  it('should stop the run and keep the queue when the API is unavailable', async () => {
+    await queue(createNote('Monday'));
+    await queue(createNote('Tuesday'));
+
+    service.replay();
+    httpMock.expectOne(`${API_URL}/notes`).flush({}, { status: 503, statusText: 'Service Unavailable' });
+
+    httpMock.expectNone(`${API_URL}/notes`);
+    expect(service.pendingCount()).toBe(2);
+    expect(service.isSyncing()).toBeFalse();
+  });
+
+  it('should send a rejected write again when it is retried', async () => {
+    await queue(createNote('Monday'));
+    service.replay();
+    httpMock.expectOne(`${API_URL}/notes`).flush({}, { status: 409, statusText: 'Conflict' });
+
+    service.retry(service.rejectedItems()[0].id);
+    httpMock.expectOne(`${API_URL}/notes`).flush({ id: 'note-1' });
+
+    expect(service.items()).toEqual([]);
+  });
+
+  it('should keep a write pending when the session ended during replay', async () => {
+    await queue(createNote('Monday'));
+
+    service.replay();
+    httpMock.expectOne(`${API_URL}/notes`).flush({}, { status: 401, statusText: 'Unauthorized' });
+
+    expect(service.pendingCount()).toBe(1);
+    expect(service.isSyncing()).toBeFalse();
+  });
+
+  it('should keep queued writes for the user who signs in again', async () => {
+    await queue(createNote('Monday'));
+
+    userId.set(null);
+    expect(service.items()).toEqual([]);
+
+    userId.set('user-2');
+    expect(service.items()).toEqual([]);
+
+    userId.set('user-1');
+    expect(service.items().length).toBe(1);
+  });
+
+  it('should drop only the signed-out user\'s writes and stop the replay on clear', async () => {
+    userId.set('user-2');
+    await queue(createNote('Sunday'));
+    userId.set('user-1');
+    await queue(createNote('Monday'));
+    service.replay();
+    const req = httpMock.expectOne(`${API_URL}/notes`);
+
+    service.clear('user-1');
+
+    expect(req.cancelled).toBeTrue();
+    expect(service.items()).toEqual([]);
+    expect(service.isSyncing()).toBeFalse();
+
+    userId.set('user-2');
+    expect(service.items().length).toBe(1);
+  });
+});
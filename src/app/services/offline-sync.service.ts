@@ -0,0 +1,270 @@
+import { Injectable, OnDestroy, computed, inject, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Observable, Subscription, from, fromEvent, merge, of, throwError, timer } from 'rxjs';
+import { catchError, concatMap, finalize, map, takeWhile, tap } from 'rxjs/operators';
+import {
+  NoteDto,
+  OfflineWriteResult,
+  PendingWrite,
+  PendingWriteItem,
+  ReportFeedbackDto,
+  SyncProgress,
+} from '../../types';
+import { normalizeApiError } from '../utils/api-error';
+import { IndexedDbStore } from '../utils/indexed-db-store';
+import { ApiClient } from './api-client.service';
+import { AuthService } from './auth.service';
+import { HttpCacheService } from './http-cache.service';
+import { LoggerService } from './logger.service';
+
+// Response of each write kind once it reaches the API
+type PendingWriteResponse = {
+  create_note: NoteDto;
+  update_note: NoteDto;
+  submit_feedback: ReportFeedbackDto;
+};
+
+/**
+ * OfflineSyncService
+ *
+ * Queue for note and feedback writes made without connectivity.
+ * - A write failing with a network error is saved in IndexedDB and shown
+ *   as pending instead of failing
+ * - Pending writes are replayed one by one, oldest first, when the browser
+ *   comes back online, after sign-in and periodically while any are left
+ * - A 409 (daily note limit, feedback already sent) or another rejection
+ *   is kept on the item for the user to retry or discard; the rest of the
+ *   queue continues
+ * - Network errors, 429 and 5xx stop the run and leave the remaining
+ *   items for the next attempt
+ * - The API does not deduplicate note and feedback writes (it honors
+ *   Idempotency-Key only for report generation and email delivery), so a
+ *   write that reached it just before the connection dropped can be
+ *   applied twice on replay
+ * - Items belong to the user who queued them and survive the session
+ *   ending (idle timeout, failed refresh); only an explicit sign-out
+ *   discards them (see AuthService.signOut())
+ */
+@Injectable({ providedIn: 'root' })
+export class OfflineSyncService implements OnDestroy {
+  private readonly api = inject(ApiClient);
+  private readonly authService = inject(AuthService);
+  private readonly httpCache = inject(HttpCacheService);
+  private readonly logger = inject(LoggerService).scoped('SYNC');
+  private readonly store = new IndexedDbStore<PendingWriteItem>('life-sync-pending-writes');
+
+  private readonly RETRY_INTERVAL_MS = 60 * 1000;
+
+  private readonly itemsSignal = signal<PendingWriteItem[]>([]);
+  private readonly progressSignal = signal<SyncProgress | null>(null);
+  private readonly onlineSignal = signal(typeof navigator === 'undefined' || navigator.onLine);
+
+  private readonly userId$ = toObservable(this.authService.userId);
+
+  // Queued writes of the signed-in user, oldest first
+  readonly items = computed(() =>
+    this.itemsSignal().filter((item) => item.userId === this.authService.userId())
+  );
+  readonly pendingCount = computed(
+    () => this.items().filter((item) => item.status === 'pending' || item.status === 'syncing').length
+  );
+  readonly rejectedItems = computed(() =>
+    this.items().filter((item) => item.status === 'conflict' || item.status === 'failed')
+  );
+  readonly progress = this.progressSignal.asReadonly();
+  readonly isSyncing = computed(() => this.progressSignal() !== null);
+  readonly isOnline = this.onlineSignal.asReadonly();
+
+  private subscription: Subscription | null = null;
+  private replaySubscription: Subscription | null = null;
+
+  /**
+   * Load the queue saved by earlier sessions and start replaying
+   * Safe to call more than once; no-op outside the browser
+   */
+  start(): void {
+    if (this.subscription || typeof window === 'undefined') {
+      return;
+    }
+
+    this.subscription = from(this.store.getAll().catch(() => []))
+      .pipe(
+        concatMap((items) => {
+          // A replay interrupted by a reload has not settled, send it again
+          this.itemsSignal.set(
+            items
+              .map((item) => (item.status === 'syncing' ? { ...item, status: 'pending' as const } : item))
+              .sort((a, b) => a.queuedAt - b.queuedAt)
+          );
+
+          return merge(
+            fromEvent(window, 'online').pipe(map(() => true)),
+            fromEvent(window, 'offline').pipe(map(() => false)),
+            this.userId$.pipe(map(() => navigator.onLine)),
+            timer(this.RETRY_INTERVAL_MS, this.RETRY_INTERVAL_MS).pipe(map(() => navigator.onLine))
+          );
+        })
+      )
+      .subscribe((online) => {
+        this.onlineSignal.set(online);
+        if (online) {
+          this.replay();
+        }
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+    this.replaySubscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  /**
+   * Send a write, or queue it when the request fails with a network error
+   *
+   * @returns The API response, or the queued item when offline
+   * @throws AppError-compatible errors for any other failure
+   */
+  submit<W extends PendingWrite>(write: W): Observable<OfflineWriteResult<PendingWriteResponse[W['kind']]>> {
+    return this.send(write).pipe(
+      map((result) => ({ queued: false as const, result })),
+      catchError((error) => {
+        const userId = this.authService.userId();
+        if (normalizeApiError(error).kind !== 'network' || !userId) {
+          return throwError(() => error);
+        }
+
+        const item: PendingWriteItem = {
+          id: crypto.randomUUID(),
+          userId,
+          write,
+          status: 'pending',
+          queuedAt: Date.now(),
+          error: null,
+        };
+        this.onlineSignal.set(false);
+        this.saveItem(item);
+        return of({ queued: true as const, item });
+      })
+    );
+  }
+
+  /**
+   * Replay pending writes of the signed-in user, oldest first
+   * Does nothing while a replay is already running
+   */
+  replay(): void {
+    if (this.isSyncing()) {
+      return;
+    }
+
+    const queue = this.items().filter((item) => item.status === 'pending');
+    if (queue.length === 0) {
+      return;
+    }
+
+    this.progressSignal.set({ done: 0, total: queue.length });
+    this.replaySubscription = from(queue)
+      .pipe(
+        concatMap((item) => this.replayItem(item)),
+        takeWhile((shouldContinue) => shouldContinue),
+        finalize(() => this.progressSignal.set(null))
+      )
+      .subscribe();
+  }
+
+  /**
+   * Put a rejected write back in the queue, e.g. after freeing a daily slot
+   */
+  retry(id: string): void {
+    const item = this.itemsSignal().find((candidate) => candidate.id === id);
+    if (!item) return;
+
+    this.saveItem({ ...item, status: 'pending', error: null });
+    this.replay();
+  }
+
+  /**
+   * Drop a queued write without sending it
+   */
+  discard(id: string): void {
+    this.itemsSignal.update((items) => items.filter((item) => item.id !== id));
+    this.store.delete(id).catch((error) => this.logger.error('Failed to delete queued write', error));
+  }
+
+  /**
+   * Drop a user's queued writes and stop a running replay, e.g. on sign-out
+   */
+  clear(userId: string): void {
+    this.replaySubscription?.unsubscribe();
+    this.replaySubscription = null;
+    this.progressSignal.set(null);
+    this.itemsSignal()
+      .filter((item) => item.userId === userId)
+      .forEach((item) => this.discard(item.id));
+  }
+
+  /**
+   * Replay one item; emits whether the run should go on with the next one
+   */
+  private replayItem(item: PendingWriteItem): Observable<boolean> {
+    this.saveItem({ ...item, status: 'syncing' });
+
+    return this.send(item.write).pipe(
+      map(() => {
+        this.discard(item.id);
+        this.advanceProgress();
+        return true;
+      }),
+      catchError((error) => {
+        const appError = normalizeApiError(error);
+
+        // Still offline, the API is struggling or the session ended: try again later
+        if (appError.recoverable || appError.kind === 'unauthorized') {
+          this.saveItem({ ...item, status: 'pending' });
+          this.onlineSignal.set(appError.kind !== 'network');
+          return of(false);
+        }
+
+        this.saveItem({
+          ...item,
+          status: appError.kind === 'conflict' ? 'conflict' : 'failed',
+          error: appError,
+        });
+        this.advanceProgress();
+        return of(true);
+      })
+    );
+  }
+
+  private send<W extends PendingWrite>(write: W): Observable<PendingWriteResponse[W['kind']]> {
+    // Narrowed per kind below; the cast maps each branch back to its response type
+    const request = ((): Observable<PendingWriteResponse[PendingWrite['kind']]> => {
+      switch (write.kind) {
+        case 'create_note':
+          return this.api.request('POST /notes', { body: write.body });
+        case 'update_note':
+          return this.api.request('PUT /notes/:id', { params: { id: write.noteId }, body: write.body });
+        case 'submit_feedback':
+          return this.api.request('POST /feedback', { query: { upsert: write.upsert }, body: write.body });
+      }
+    })();
+    const changedPaths = write.kind === 'submit_feedback' ? ['/feedback'] : ['/notes', '/dashboard'];
+    return (request as Observable<PendingWriteResponse[W['kind']]>).pipe(
+      tap(() => this.httpCache.invalidate(...changedPaths))
+    );
+  }
+
+  private advanceProgress(): void {
+    this.progressSignal.update((progress) => progress && { ...progress, done: progress.done + 1 });
+  }
+
+  private saveItem(item: PendingWriteItem): void {
+    this.itemsSignal.update((items) =>
+      items.some((existing) => existing.id === item.id)
+        ? items.map((existing) => (existing.id === item.id ? item : existing))
+        : [...items, item]
+    );
+    this.store.put(item.id, item).catch((error) => this.logger.error('Failed to save queued write', error));
+  }
+}
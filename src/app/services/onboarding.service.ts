@@ -0,0 +1,79 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+import {
+  CategoryDto,
+  PreferencesDto,
+  ProfileDto,
+  UpdatePreferencesCommand,
+  UpdateProfileCommand,
+} from '../../types';
+import { ApiClient } from './api-client.service';
+import { HttpCacheService } from './http-cache.service';
+import { withCache } from '../interceptors/http-cache.interceptor';
+
+/**
+ * OnboardingService
+ *
+ * API calls used by the onboarding wizard to create the user's profile
+ * and preferences after sign-up.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class OnboardingService {
+  private readonly api = inject(ApiClient);
+  private readonly httpCache = inject(HttpCacheService);
+
+  // Preference defaults used when the user has none yet (mirrors DB defaults)
+  readonly DEFAULT_MAX_DAILY_NOTES = 4;
+  readonly MAX_ACTIVE_CATEGORIES = 3;
+
+  /**
+   * Get active categories, sorted by name
+   */
+  getActiveCategories(): Observable<CategoryDto[]> {
+    return this.api
+      .request('GET /categories', {
+        query: { active: true, sort: 'name_asc' },
+        // Seeded data that rarely changes
+        context: withCache({ ttlMs: 60 * 60 * 1000, staleWhileRevalidate: false }),
+      })
+      .pipe(map((response) => response.items));
+  }
+
+  /**
+   * Get current preferences, or null when they have not been created yet
+   */
+  getPreferences(): Observable<PreferencesDto | null> {
+    // Always revalidated (If-None-Match), the wizard must start from the saved values
+    return this.api
+      .request('GET /preferences', {
+        context: withCache({ ttlMs: 0, staleWhileRevalidate: false }),
+      })
+      .pipe(
+        catchError((error: HttpErrorResponse) =>
+          error.status === 404 ? of(null) : throwError(() => error)
+        )
+      );
+  }
+
+  /**
+   * Create or update the profile timezone
+   */
+  updateProfile(command: UpdateProfileCommand): Observable<ProfileDto> {
+    return this.api
+      .request('PUT /profile', { body: command })
+      .pipe(tap(() => this.httpCache.invalidate('/dashboard')));
+  }
+
+  /**
+   * Create or update preferences
+   */
+  updatePreferences(command: UpdatePreferencesCommand): Observable<PreferencesDto> {
+    return this.api
+      .request('PUT /preferences', { body: command })
+      .pipe(tap(() => this.httpCache.invalidate('/preferences', '/dashboard')));
+  }
+}
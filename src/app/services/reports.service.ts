@@ -0,0 +1,64 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import {
+  EmailDeliveryResponseDto,
+  GenerateReportCommand,
+  ListReportsQuery,
+  ListReportsResponseDto,
+  ReportDto,
+  UUID,
+} from '../../types';
+import { withCache } from '../interceptors/http-cache.interceptor';
+import { withIdempotency } from '../interceptors/idempotency.interceptor';
+import { ApiClient } from './api-client.service';
+import { HttpCacheService } from './http-cache.service';
+
+/**
+ * ReportsService
+ *
+ * Report API calls. Writes are sent with an Idempotency-Key, so a double
+ * click or a retry after a timeout does not use up another on-demand slot
+ * or send the same email twice.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ReportsService {
+  private readonly api = inject(ApiClient);
+  private readonly httpCache = inject(HttpCacheService);
+
+  /**
+   * List reports; a cached page is shown at once and refreshed behind it
+   */
+  listReports(query: ListReportsQuery = {}): Observable<ListReportsResponseDto> {
+    return this.api.request('GET /reports', {
+      query,
+      context: withCache({ ttlMs: 5 * 60 * 1000, staleWhileRevalidate: true }),
+    });
+  }
+
+  /**
+   * Generate an on-demand report (at most 3 per week)
+   */
+  generateReport(command: GenerateReportCommand): Observable<ReportDto> {
+    return this.api
+      .request('POST /reports/generate', {
+        body: command,
+        context: withIdempotency(),
+      })
+      .pipe(tap(() => this.httpCache.invalidate('/reports', '/report-deliveries', '/dashboard')));
+  }
+
+  /**
+   * Queue email delivery of a report
+   */
+  requestEmailDelivery(reportId: UUID): Observable<EmailDeliveryResponseDto> {
+    return this.api
+      .request('POST /reports/:id/deliveries/email', {
+        params: { id: reportId },
+        context: withIdempotency(),
+      })
+      .pipe(tap(() => this.httpCache.invalidate('/report-deliveries')));
+  }
+}
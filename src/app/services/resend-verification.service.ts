@@ -0,0 +1,90 @@
+import { Injectable, OnDestroy, computed, inject, signal } from '@angular/core';
+import { Subscription, timer } from 'rxjs';
+import { take, timeout } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { API_CONFIG } from '../config/api.config';
+import { toLoginError } from '../utils/api-error';
+import { LoginError, ResendVerificationStatus } from '../../types';
+
+/**
+ * ResendVerificationService
+ *
+ * Sends the verification email again and enforces a cooldown between sends.
+ * State lives in a root service so the cooldown carries over between the
+ * login prompt and the post-registration success message.
+ * - After a successful send, a fixed cooldown starts
+ * - After a 429, the cooldown follows `retryAfter` from the error body
+ */
+@Injectable({ providedIn: 'root' })
+export class ResendVerificationService implements OnDestroy {
+  private readonly authService = inject(AuthService);
+  private readonly apiConfig = inject(API_CONFIG);
+
+  private readonly DEFAULT_COOLDOWN_SECONDS = 60;
+
+  private readonly stateSignal = signal<ResendVerificationStatus['state']>('idle');
+  private readonly cooldownSignal = signal(0);
+  private readonly errorSignal = signal<LoginError | null>(null);
+
+  readonly status = computed<ResendVerificationStatus>(() => ({
+    state: this.stateSignal(),
+    cooldownSeconds: this.cooldownSignal(),
+    error: this.errorSignal(),
+  }));
+
+  private cooldownSubscription: Subscription | null = null;
+
+  /**
+   * Request a new verification email unless a send is in progress or cooling down
+   * @param email - Address to send the verification link to
+   */
+  resend(email: string): void {
+    if (!email || this.stateSignal() === 'sending' || this.cooldownSignal() > 0) {
+      return;
+    }
+
+    this.stateSignal.set('sending');
+    this.errorSignal.set(null);
+
+    this.authService
+      .resendVerification(email)
+      .pipe(timeout(this.apiConfig.timeoutMs))
+      .subscribe({
+        next: () => {
+          this.stateSignal.set('sent');
+          this.startCooldown(this.DEFAULT_COOLDOWN_SECONDS);
+        },
+        error: (error) => {
+          const loginError = this.mapApiErrorToLoginError(error);
+          this.stateSignal.set('error');
+          this.errorSignal.set(loginError);
+
+          if (loginError.details?.retryAfter) {
+            this.startCooldown(loginError.details.retryAfter);
+          }
+        },
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.cooldownSubscription?.unsubscribe();
+  }
+
+  private startCooldown(seconds: number): void {
+    this.cooldownSubscription?.unsubscribe();
+    this.cooldownSignal.set(seconds);
+
+    this.cooldownSubscription = timer(1000, 1000)
+      .pipe(take(seconds))
+      .subscribe(() => this.cooldownSignal.update((value) => Math.max(value - 1, 0)));
+  }
+
+  private mapApiErrorToLoginError(error: unknown): LoginError {
+    return toLoginError(error, {
+      validation: 'Please enter a valid email address.',
+      rate_limited: 'Too many verification emails requested. Please wait before trying again.',
+      server: 'We could not send the verification email. Please try again later.',
+      unknown: 'We could not send the verification email. Please try again later.',
+    });
+  }
+}
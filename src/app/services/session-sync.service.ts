@@ -0,0 +1,88 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { Subscription, fromEvent } from 'rxjs';
+import { debounceTime, filter } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { TokenStorageService } from './token-storage.service';
+import { isAuthGuarded } from '../guards/auth.guard';
+
+/**
+ * SessionSyncService
+ *
+ * Keeps AuthService state consistent across browser tabs.
+ * Remembered sessions are persisted to localStorage, so the `storage` event
+ * fired in the other tabs is used as the sync channel. Tabs whose session
+ * lives in sessionStorage ("remember me" off) are not affected:
+ * - Sign-in / token refresh: signals are reloaded and the refresh timer rescheduled;
+ *   the refresh itself runs in one tab at a time (see AuthService.refreshAccessToken())
+ * - Logout: tabs on guarded routes are sent to /login with a returnUrl
+ * - Sign-in as a different user: the tab is reloaded so no data from the
+ *   previous account stays in memory
+ */
+@Injectable({ providedIn: 'root' })
+export class SessionSyncService implements OnDestroy {
+  private readonly authService = inject(AuthService);
+  private readonly router = inject(Router);
+  private readonly tokenStorage = inject(TokenStorageService);
+
+  // Token writes touch several keys at once, handle them as one change
+  private readonly STORAGE_EVENT_DEBOUNCE_MS = 50;
+
+  private subscription: Subscription | null = null;
+
+  /**
+   * Start listening for session changes made in other tabs
+   * Safe to call more than once; no-op outside the browser
+   */
+  start(): void {
+    if (this.subscription || typeof window === 'undefined') {
+      return;
+    }
+
+    this.subscription = fromEvent<StorageEvent>(window, 'storage')
+      .pipe(
+        filter(
+          (event) =>
+            event.storageArea === localStorage &&
+            this.tokenStorage.kind() === 'local' &&
+            this.authService.ownsStorageKey(event.key)
+        ),
+        debounceTime(this.STORAGE_EVENT_DEBOUNCE_MS)
+      )
+      .subscribe(() => this.handleSessionChange());
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  private handleSessionChange(): void {
+    const previousUserId = this.authService.userId();
+    this.authService.syncFromStorage();
+    const currentUserId = this.authService.userId();
+
+    if (!this.authService.isAuthenticated()) {
+      this.leaveGuardedRoute();
+      return;
+    }
+
+    if (previousUserId && currentUserId !== previousUserId) {
+      window.location.reload();
+    }
+  }
+
+  /**
+   * Redirect to /login if the active route is protected by authGuard,
+   * using the same returnUrl convention as the guard itself
+   */
+  private leaveGuardedRoute(): void {
+    if (!isAuthGuarded(this.router.routerState.snapshot.root)) {
+      return;
+    }
+
+    this.router.navigate(['/login'], {
+      queryParams: { returnUrl: this.router.url },
+    });
+  }
+}
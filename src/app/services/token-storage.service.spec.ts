@@ -0,0 +1,143 @@
+import { TestBed } from '@angular/core/testing';
+import { PLATFORM_ID } from '@angular/core';
+import {
+  MemoryStorageBackend,
+  TOKEN_STORAGE_BACKENDS,
+  TokenStorageBackend,
+  TokenStorageKind,
+  TokenStorageService,
+  WebStorageBackend,
+} from './token-storage.service';
+
+// Map-backed stand-in for localStorage and sessionStorage
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length(): number {
+      return items.size;
+    },
+    key: (index: number): string | null => [...items.keys()][index] ?? null,
+    getItem: (key: string): string | null => items.get(key) ?? null,
+    setItem: (key: string, value: string): void => {
+      items.set(key, String(value));
+    },
+    removeItem: (key: string): void => {
+      items.delete(key);
+    },
+    clear: (): void => items.clear(),
+  };
+}
+
+describe('WebStorageBackend', () => {
+  it('should read and write through the wrapped storage', () => {
+    const storage = createStorage();
+    const backend = new WebStorageBackend(storage);
+
+    backend.setItem('access_token', 'abc');
+    expect(storage.getItem('access_token')).toBe('abc');
+    expect(backend.getItem('access_token')).toBe('abc');
+
+    backend.removeItem('access_token');
+    expect(backend.getItem('access_token')).toBeNull();
+  });
+});
+
+describe('MemoryStorageBackend', () => {
+  it('should keep values per instance', () => {
+    const backend = new MemoryStorageBackend();
+
+    expect(backend.getItem('access_token')).toBeNull();
+    backend.setItem('access_token', 'abc');
+    expect(backend.getItem('access_token')).toBe('abc');
+    expect(new MemoryStorageBackend().getItem('access_token')).toBeNull();
+
+    backend.removeItem('access_token');
+    expect(backend.getItem('access_token')).toBeNull();
+  });
+});
+
+describe('TOKEN_STORAGE_BACKENDS', () => {
+  it('should fall back to one in-memory backend on the server', () => {
+    TestBed.configureTestingModule({ providers: [{ provide: PLATFORM_ID, useValue: 'server' }] });
+
+    const backends = TestBed.inject(TOKEN_STORAGE_BACKENDS);
+
+    expect(backends.memory).toBeInstanceOf(MemoryStorageBackend);
+    expect(backends.local).toBe(backends.memory);
+    expect(backends.session).toBe(backends.memory);
+  });
+});
+
+describe('TokenStorageService', () => {
+  const KEYS = ['access_token', 'refresh_token'];
+  let backends: Record<TokenStorageKind, TokenStorageBackend>;
+
+  function createService(): TokenStorageService {
+    TestBed.configureTestingModule({
+      providers: [{ provide: TOKEN_STORAGE_BACKENDS, useValue: backends }],
+    });
+    return TestBed.inject(TokenStorageService);
+  }
+
+  beforeEach(() => {
+    backends = {
+      local: new WebStorageBackend(createStorage()),
+      session: new WebStorageBackend(createStorage()),
+      memory: new MemoryStorageBackend(),
+    };
+  });
+
+  it('should store in localStorage by default', () => {
+    const service = createService();
+
+    service.setItem('access_token', 'abc');
+
+    expect(service.kind()).toBe('local');
+    expect(backends.local.getItem('access_token')).toBe('abc');
+    expect(backends.session.getItem('access_token')).toBeNull();
+  });
+
+  it('should move to sessionStorage without "remember me" and drop the old values', () => {
+    const service = createService();
+    service.setItem('access_token', 'old');
+
+    service.usePersistence(false, KEYS);
+    service.setItem('access_token', 'abc');
+
+    expect(service.kind()).toBe('session');
+    expect(backends.local.getItem('access_token')).toBeNull();
+    expect(backends.session.getItem('access_token')).toBe('abc');
+  });
+
+  it('should keep using sessionStorage after a reload', () => {
+    createService().usePersistence(false, KEYS);
+    TestBed.resetTestingModule();
+
+    expect(createService().kind()).toBe('session');
+  });
+
+  it('should clear every backend and go back to localStorage', () => {
+    const service = createService();
+    service.usePersistence(false, KEYS);
+    service.setItem('access_token', 'abc');
+    backends.local.setItem('refresh_token', 'stale');
+
+    service.clear(KEYS);
+
+    expect(service.kind()).toBe('local');
+    expect(backends.session.getItem('access_token')).toBeNull();
+    expect(backends.local.getItem('refresh_token')).toBeNull();
+  });
+
+  it('should stay in memory when web storage is unavailable', () => {
+    const memory = new MemoryStorageBackend();
+    backends = { local: memory, session: memory, memory };
+    const service = createService();
+
+    service.usePersistence(false, KEYS);
+    service.setItem('access_token', 'abc');
+
+    expect(service.kind()).toBe('memory');
+    expect(memory.getItem('access_token')).toBe('abc');
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  Injectable,
+  InjectionToken,
+  PLATFORM_ID,
+  inject,
+  signal,
+} from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+/**
+ * Where the session is kept:
+ * - local: survives browser restarts ("remember me")
+ * - session: cleared when the tab is closed
+ * - memory: server-side rendering or browsers with storage disabled
+ */
+export type TokenStorageKind = 'local' | 'session' | 'memory';
+
+/**
+ * Minimal key/value backend, a subset of the Web Storage API
+ */
+export abstract class TokenStorageBackend {
+  abstract getItem(key: string): string | null;
+  abstract setItem(key: string, value: string): void;
+  abstract removeItem(key: string): void;
+}
+
+export class WebStorageBackend implements TokenStorageBackend {
+  constructor(private readonly storage: Storage) {}
+
+  getItem(key: string): string | null {
+    return this.storage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+}
+
+export class MemoryStorageBackend implements TokenStorageBackend {
+  private readonly items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Storage backends by kind. In the browser these wrap localStorage and
+ * sessionStorage; on the server (or when storage access throws, e.g. in
+ * some privacy modes) every kind falls back to an in-memory store.
+ * Override in app.config providers to plug in a different backend.
+ */
+export const TOKEN_STORAGE_BACKENDS = new InjectionToken<
+  Record<TokenStorageKind, TokenStorageBackend>
+>('TOKEN_STORAGE_BACKENDS', {
+  providedIn: 'root',
+  factory: (): Record<TokenStorageKind, TokenStorageBackend> => {
+    const memory = new MemoryStorageBackend();
+    const isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+    return {
+      local: (isBrowser && createWebStorageBackend(() => localStorage)) || memory,
+      session: (isBrowser && createWebStorageBackend(() => sessionStorage)) || memory,
+      memory,
+    };
+  },
+});
+
+function createWebStorageBackend(getStorage: () => Storage): WebStorageBackend | null {
+  try {
+    const storage = getStorage();
+    const probeKey = '__storage_probe__';
+    storage.setItem(probeKey, probeKey);
+    storage.removeItem(probeKey);
+    return new WebStorageBackend(storage);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * TokenStorageService
+ *
+ * Single place where session tokens are read and written.
+ * Values go to the active backend, chosen at sign-in with "remember me";
+ * the choice survives reloads through a marker kept in sessionStorage.
+ */
+@Injectable({ providedIn: 'root' })
+export class TokenStorageService {
+  private readonly backends = inject(TOKEN_STORAGE_BACKENDS);
+
+  // Marks a tab whose session lives in sessionStorage
+  private readonly SESSION_MARKER_KEY = 'auth_storage';
+
+  private readonly kindSignal = signal<TokenStorageKind>(this.detectKind());
+
+  // Public signal accessor
+  readonly kind = this.kindSignal.asReadonly();
+
+  getItem(key: string): string | null {
+    return this.backends[this.kindSignal()].getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.backends[this.kindSignal()].setItem(key, value);
+  }
+
+  /**
+   * Switch backend before storing a new session
+   * Values left in the previously active backend are removed
+   *
+   * @param rememberMe - Keep the session after the browser is closed
+   * @param keys - Keys of the session being moved
+   */
+  usePersistence(rememberMe: boolean, keys: string[]): void {
+    const kind: TokenStorageKind = rememberMe ? 'local' : 'session';
+    if (this.kindSignal() === 'memory' || kind === this.kindSignal()) {
+      return;
+    }
+
+    this.clear(keys);
+    this.kindSignal.set(kind);
+
+    if (kind === 'session') {
+      this.backends.session.setItem(this.SESSION_MARKER_KEY, kind);
+    }
+  }
+
+  /**
+   * Remove keys from every backend and fall back to the default backend
+   */
+  clear(keys: string[]): void {
+    const backends = new Set(Object.values(this.backends));
+    backends.forEach((backend) => {
+      keys.forEach((key) => backend.removeItem(key));
+      backend.removeItem(this.SESSION_MARKER_KEY);
+    });
+    this.kindSignal.set(this.detectKind());
+  }
+
+  private detectKind(): TokenStorageKind {
+    if (this.backends.session === this.backends.memory) {
+      return 'memory';
+    }
+    return this.backends.session.getItem(this.SESSION_MARKER_KEY) ? 'session' : 'local';
+  }
+}
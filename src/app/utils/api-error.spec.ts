@@ -0,0 +1,160 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { TimeoutError } from 'rxjs';
+import {
+  ResponseValidationError,
+  formatRetryAfter,
+  normalizeApiError,
+  toLoginError,
+} from './api-error';
+
+function apiError(
+  status: number,
+  error: { code: string; message: string; details?: Record<string, unknown> } | null,
+  headers?: HttpHeaders
+): HttpErrorResponse {
+  return new HttpErrorResponse({ status, error: error && { error }, headers });
+}
+
+describe('normalizeApiError', () => {
+  it('should read the ErrorResponseDto body', () => {
+    const error = normalizeApiError(
+      apiError(400, {
+        code: 'invalid_email',
+        message: 'Enter a valid email address',
+        details: { field: 'email', reason: 'Enter a valid email address' },
+      })
+    );
+
+    expect(error).toEqual({
+      kind: 'validation',
+      status: 400,
+      apiCode: 'invalid_email',
+      message: 'Enter a valid email address',
+      details: { field: 'email', reason: 'Enter a valid email address' },
+      fieldErrors: { email: 'Enter a valid email address' },
+      retryAfter: null,
+      recoverable: false,
+    });
+  });
+
+  it('should collect field errors from every details shape', () => {
+    const error = normalizeApiError(
+      apiError(422, {
+        code: 'validation_failed',
+        message: 'Invalid input',
+        details: {
+          fields: { timezone: 'Unknown timezone' },
+          errors: [{ field: 'report_hour', message: 'Must be 0-23' }, { field: 1 }],
+        },
+      })
+    );
+
+    expect(error.kind).toBe('unprocessable');
+    expect(error.fieldErrors).toEqual({ timezone: 'Unknown timezone', report_hour: 'Must be 0-23' });
+  });
+
+  it('should map statuses to kinds', () => {
+    expect(normalizeApiError(apiError(0, null))).toEqual(
+      jasmine.objectContaining({ kind: 'network', recoverable: true, apiCode: null, message: null })
+    );
+    expect(normalizeApiError(apiError(404, null)).kind).toBe('not_found');
+    expect(normalizeApiError(apiError(503, null))).toEqual(
+      jasmine.objectContaining({ kind: 'server', recoverable: true })
+    );
+    expect(normalizeApiError(apiError(418, null)).kind).toBe('unknown');
+  });
+
+  it('should take the retry delay from the body, then the header, then the default', () => {
+    const limited = { code: 'rate_limited', message: 'Slow down' };
+
+    expect(normalizeApiError(apiError(429, { ...limited, details: { retryAfter: 30 } })).retryAfter).toBe(30);
+    expect(normalizeApiError(apiError(429, limited, new HttpHeaders({ 'Retry-After': '120' }))).retryAfter).toBe(
+      120
+    );
+    expect(normalizeApiError(apiError(429, limited)).retryAfter).toBe(900);
+    expect(normalizeApiError(apiError(400, limited)).retryAfter).toBeNull();
+  });
+
+  it('should handle errors that are not HTTP responses', () => {
+    const invalid = new ResponseValidationError('GET /api/notes', [
+      { path: 'total', expected: 'number', received: 'string' },
+    ]);
+
+    expect(normalizeApiError(new TimeoutError())).toEqual(
+      jasmine.objectContaining({ kind: 'timeout', status: 0, recoverable: true })
+    );
+    expect(normalizeApiError(invalid)).toEqual(
+      jasmine.objectContaining({
+        kind: 'invalid_response',
+        status: 200,
+        details: { endpoint: 'GET /api/notes', issues: invalid.issues },
+      })
+    );
+    expect(normalizeApiError(new Error('boom')).kind).toBe('unknown');
+  });
+
+  it('should return an AppError unchanged', () => {
+    const error = normalizeApiError(apiError(409, { code: 'feedback_exists', message: 'Already rated' }));
+
+    expect(normalizeApiError(error)).toBe(error);
+  });
+});
+
+describe('toLoginError', () => {
+  it('should keep the server message and field details for validation errors', () => {
+    const error = toLoginError(
+      apiError(400, {
+        code: 'weak_password',
+        message: 'Password must be at least 6 characters',
+        details: { field: 'password', reason: 'Too short' },
+      }),
+      { validation: 'Invalid input' }
+    );
+
+    expect(error).toEqual({
+      code: 'VALIDATION_ERROR',
+      message: 'Password must be at least 6 characters',
+      details: { field: 'password', reason: 'Too short', fieldErrors: { password: 'Too short' } },
+    });
+  });
+
+  it('should prefer the caller message, then the server message, then the default', () => {
+    const forbidden = apiError(403, { code: 'forbidden', message: 'Not your report' });
+
+    expect(toLoginError(forbidden, { forbidden: 'You cannot open this report.' }).message).toBe(
+      'You cannot open this report.'
+    );
+    expect(toLoginError(forbidden).message).toBe('Not your report');
+    expect(toLoginError(apiError(403, null))).toEqual({
+      code: 'FORBIDDEN',
+      message: 'You do not have permission to do that.',
+    });
+  });
+
+  it('should report the retry delay of rate limited requests', () => {
+    const error = toLoginError(apiError(429, null, new HttpHeaders({ 'Retry-After': '60' })));
+
+    expect(error).toEqual({
+      code: 'RATE_LIMITED',
+      message: 'Too many attempts. Please try again in 1 minute.',
+      details: { retryAfter: 60 },
+    });
+  });
+
+  it('should build messages from the error', () => {
+    const error = toLoginError(apiError(429, null), {
+      rate_limited: (appError) => `Wait ${appError.retryAfter} seconds.`,
+    });
+
+    expect(error.message).toBe('Wait 900 seconds.');
+  });
+});
+
+describe('formatRetryAfter', () => {
+  it('should use seconds below a minute and round up to minutes above', () => {
+    expect(formatRetryAfter(1)).toBe('1 second');
+    expect(formatRetryAfter(45)).toBe('45 seconds');
+    expect(formatRetryAfter(61)).toBe('2 minutes');
+    expect(formatRetryAfter(null)).toBe('15 minutes');
+  });
+});
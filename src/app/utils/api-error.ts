@@ -0,0 +1,247 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { AppError, AppErrorKind, LoginError } from '../../types';
+import { SchemaIssue } from './schema';
+
+const DEFAULT_RETRY_AFTER_SECONDS = 900;
+
+const KIND_BY_STATUS: Record<number, AppErrorKind> = {
+  400: 'validation',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  422: 'unprocessable',
+  429: 'rate_limited',
+};
+
+const RECOVERABLE_KINDS: AppErrorKind[] = ['network', 'timeout', 'rate_limited', 'server'];
+
+const LOGIN_ERROR_CODES: Record<AppErrorKind, LoginError['code']> = {
+  network: 'NETWORK_ERROR',
+  timeout: 'NETWORK_ERROR',
+  validation: 'VALIDATION_ERROR',
+  unauthorized: 'UNAUTHORIZED',
+  forbidden: 'FORBIDDEN',
+  not_found: 'NOT_FOUND',
+  conflict: 'CONFLICT',
+  unprocessable: 'VALIDATION_ERROR',
+  rate_limited: 'RATE_LIMITED',
+  server: 'SERVER_ERROR',
+  invalid_response: 'SERVER_ERROR',
+  unknown: 'SERVER_ERROR',
+};
+
+// Message for an error kind, fixed or built from the error (e.g. retryAfter)
+export type ErrorMessage = string | ((error: AppError) => string);
+
+export const DEFAULT_ERROR_MESSAGES: Record<AppErrorKind, ErrorMessage> = {
+  network: 'Network connection error. Please check your internet connection.',
+  timeout: 'The server took too long to respond. Please try again.',
+  validation: 'Invalid input. Please check your entries.',
+  unauthorized: 'Your session has expired. Please sign in again.',
+  forbidden: 'You do not have permission to do that.',
+  not_found: 'The requested item could not be found.',
+  conflict: 'This change conflicts with existing data. Please refresh and try again.',
+  unprocessable: 'Invalid input. Please check your entries.',
+  rate_limited: (error) =>
+    `Too many attempts. Please try again in ${formatRetryAfter(error.retryAfter)}.`,
+  server: 'An unexpected error occurred. Please try again later.',
+  invalid_response: 'The server sent data the app could not read. Please try again later.',
+  unknown: 'An unexpected error occurred. Please try again later.',
+};
+
+/**
+ * A successful response whose body does not match its DTO schema
+ * (see API_RESPONSE_SCHEMAS), raised by ApiClient
+ */
+export class ResponseValidationError extends Error {
+  constructor(
+    readonly endpoint: string,
+    readonly issues: SchemaIssue[]
+  ) {
+    super(`Invalid response from ${endpoint}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/**
+ * Normalize anything an API call can fail with into an AppError
+ *
+ * Reads the `{ error: { code, message, details } }` body (ErrorResponseDto)
+ * when there is one, maps the status to an AppErrorKind and extracts
+ * field-level messages for forms. Client-side timeouts (rxjs TimeoutError),
+ * responses failing schema validation and responses without a body are
+ * handled too. Calling it again on an
+ * AppError returns it unchanged.
+ */
+export function normalizeApiError(error: unknown): AppError {
+  if (isAppError(error)) {
+    return error;
+  }
+
+  if ((error as Error | null)?.name === 'TimeoutError') {
+    return createAppError('timeout', 0);
+  }
+
+  if (error instanceof ResponseValidationError) {
+    return {
+      ...createAppError('invalid_response', 200),
+      details: { endpoint: error.endpoint, issues: error.issues },
+    };
+  }
+
+  if (!(error instanceof HttpErrorResponse)) {
+    return createAppError('unknown', 0);
+  }
+
+  const body = error.error?.error;
+  const apiError = body && typeof body === 'object' ? body : null;
+  const details: Record<string, unknown> =
+    apiError?.details && typeof apiError.details === 'object' ? apiError.details : {};
+
+  const kind = getKindForStatus(error.status);
+
+  return {
+    ...createAppError(kind, error.status),
+    apiCode: typeof apiError?.code === 'string' ? apiError.code : null,
+    message: typeof apiError?.message === 'string' && apiError.message ? apiError.message : null,
+    details,
+    fieldErrors: extractFieldErrors(details),
+    retryAfter: kind === 'rate_limited' ? getRetryAfterSeconds(error, details) : null,
+  };
+}
+
+export function isAppError(value: unknown): value is AppError {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    'kind' in value &&
+    'fieldErrors' in value &&
+    !(value instanceof HttpErrorResponse)
+  );
+}
+
+/**
+ * Turn a failed API call into a LoginError for the form error alert
+ *
+ * Validation errors keep the server's message; other kinds use the
+ * caller's message for that kind, then the server's, then a default.
+ *
+ * @param error - HttpErrorResponse, TimeoutError or AppError
+ * @param messages - Context-specific messages per error kind
+ */
+export function toLoginError(
+  error: unknown,
+  messages: Partial<Record<AppErrorKind, ErrorMessage>> = {}
+): LoginError {
+  const appError = normalizeApiError(error);
+  const { kind } = appError;
+  const isValidation = kind === 'validation' || kind === 'unprocessable';
+
+  const message = isValidation
+    ? appError.message ?? resolveMessage(messages[kind] ?? DEFAULT_ERROR_MESSAGES[kind], appError)
+    : resolveMessage(messages[kind], appError) ??
+      appError.message ??
+      resolveMessage(DEFAULT_ERROR_MESSAGES[kind], appError);
+
+  const loginError: LoginError = { code: LOGIN_ERROR_CODES[kind], message };
+
+  if (isValidation) {
+    const { field, reason } = appError.details;
+    loginError.details = {
+      field: typeof field === 'string' ? field : undefined,
+      reason: typeof reason === 'string' ? reason : undefined,
+      fieldErrors: appError.fieldErrors,
+    };
+  }
+
+  if (appError.retryAfter !== null) {
+    loginError.details = { retryAfter: appError.retryAfter };
+  }
+
+  return loginError;
+}
+
+/**
+ * Format a retry delay for messages, e.g. "15 minutes" or "30 seconds"
+ */
+export function formatRetryAfter(seconds: number | null): string {
+  const value = seconds ?? DEFAULT_RETRY_AFTER_SECONDS;
+  if (value < 60) {
+    return `${value} ${value === 1 ? 'second' : 'seconds'}`;
+  }
+  const minutes = Math.ceil(value / 60);
+  return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+}
+
+function createAppError(kind: AppErrorKind, status: number): AppError {
+  return {
+    kind,
+    status,
+    apiCode: null,
+    message: null,
+    details: {},
+    fieldErrors: {},
+    retryAfter: null,
+    recoverable: RECOVERABLE_KINDS.includes(kind),
+  };
+}
+
+function getKindForStatus(status: number): AppErrorKind {
+  if (status === 0) return 'network';
+  if (status >= 500) return 'server';
+  return KIND_BY_STATUS[status] ?? 'unknown';
+}
+
+/**
+ * Seconds to wait from `details.retryAfter`, then the Retry-After header
+ */
+function getRetryAfterSeconds(
+  error: HttpErrorResponse,
+  details: Record<string, unknown>
+): number {
+  const fromBody = Number(details['retryAfter']);
+  if (fromBody > 0) return fromBody;
+
+  const fromHeader = Number(error.headers?.get('Retry-After'));
+  if (fromHeader > 0) return fromHeader;
+
+  return DEFAULT_RETRY_AFTER_SECONDS;
+}
+
+/**
+ * Collect per-field messages from the shapes the API uses in `details`:
+ * - `{ field, reason }` for a single field
+ * - `{ fields: { email: 'message' } }`
+ * - `{ errors: [{ field, message }] }`
+ */
+function extractFieldErrors(details: Record<string, unknown>): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+
+  const { field, reason, fields, errors } = details;
+  if (typeof field === 'string') {
+    fieldErrors[field] = typeof reason === 'string' ? reason : 'Invalid value';
+  }
+
+  if (fields && typeof fields === 'object' && !Array.isArray(fields)) {
+    Object.entries(fields).forEach(([name, message]) => {
+      if (typeof message === 'string') fieldErrors[name] = message;
+    });
+  }
+
+  if (Array.isArray(errors)) {
+    errors.forEach((item) => {
+      if (typeof item?.field === 'string' && typeof item?.message === 'string') {
+        fieldErrors[item.field] = item.message;
+      }
+    });
+  }
+
+  return fieldErrors;
+}
+
+function resolveMessage(message: ErrorMessage, error: AppError): string;
+function resolveMessage(message: ErrorMessage | undefined, error: AppError): string | undefined;
+function resolveMessage(message: ErrorMessage | undefined, error: AppError): string | undefined {
+  return typeof message === 'function' ? message(error) : message;
+}
@@ -0,0 +1,184 @@
+import { Constants } from '../../db/database.types';
+import {
+  AnalyticsEventDto,
+  AnalyticsEventResponseDto,
+  ApiRoute,
+  ApiRoutes,
+  CategoryDto,
+  DashboardDto,
+  EmailDeliveryResponseDto,
+  NoteDto,
+  PaginatedResponse,
+  PreferencesDto,
+  ProfileDto,
+  ReportDeliveryDto,
+  ReportDto,
+  ReportFeedbackDto,
+} from '../../types';
+import {
+  Schema,
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  record,
+  string,
+  unknown,
+} from './schema';
+
+const { delivery_channel_type, delivery_status_type, generated_by_type } =
+  Constants.public.Enums;
+
+function paginated<T>(item: Schema<T>): Schema<PaginatedResponse<T>> {
+  return object<PaginatedResponse<T>>({
+    items: array(item),
+    total: number(),
+    limit: number(),
+    offset: number(),
+  });
+}
+
+const profile = object<ProfileDto>({
+  user_id: string(),
+  timezone: string(),
+  created_at: string(),
+  updated_at: string(),
+});
+
+const preferences = object<PreferencesDto>({
+  user_id: string(),
+  active_categories: array(string()),
+  preferred_delivery_channels: array(oneOf(delivery_channel_type)),
+  report_dow: number(),
+  report_hour: number(),
+  max_daily_notes: number(),
+  email_unsubscribed_at: nullable(string()),
+  created_at: string(),
+  updated_at: string(),
+});
+
+const category = object<CategoryDto>({
+  id: string(),
+  name: string(),
+  slug: string(),
+  active: boolean(),
+  created_at: string(),
+});
+
+const note = object<NoteDto>({
+  id: string(),
+  user_id: string(),
+  category_id: string(),
+  title: nullable(string()),
+  content: string(),
+  created_at: string(),
+  updated_at: string(),
+  deleted_at: nullable(string()),
+});
+
+const dashboard = object<DashboardDto>({
+  summary: object<DashboardDto['summary']>({
+    active_categories: array(string()),
+    notes_count: record(number()),
+    streak_days: number(),
+  }),
+  recent_reports: array(
+    object<DashboardDto['recent_reports'][number]>({
+      id: string(),
+      generated_by: oneOf(generated_by_type),
+      created_at: string(),
+    })
+  ),
+});
+
+const report = object<ReportDto>({
+  id: string(),
+  user_id: string(),
+  generated_by: oneOf(generated_by_type),
+  html: string(),
+  text_version: nullable(string()),
+  pdf_path: nullable(string()),
+  llm_model: nullable(string()),
+  system_prompt_version: nullable(string()),
+  categories_snapshot: unknown(),
+  created_at: string(),
+  updated_at: string(),
+  deleted_at: nullable(string()),
+});
+
+const reportDelivery = object<ReportDeliveryDto>({
+  id: string(),
+  report_id: string(),
+  user_id: string(),
+  channel: oneOf(delivery_channel_type),
+  status: oneOf(delivery_status_type),
+  queued_at: string(),
+  sent_at: nullable(string()),
+  opened_at: nullable(string()),
+  created_at: string(),
+  updated_at: string(),
+});
+
+const feedback = object<ReportFeedbackDto>({
+  id: string(),
+  report_id: string(),
+  user_id: string(),
+  rating: number(),
+  comment: nullable(string()),
+  created_at: string(),
+  updated_at: string(),
+});
+
+const analyticsEvent = object<AnalyticsEventDto>({
+  id: number(),
+  user_id: string(),
+  event_name: string(),
+  source: string(),
+  schema_version: number(),
+  properties: unknown(),
+  created_at: string(),
+});
+
+/**
+ * Response schemas checked by ApiClient, one per route returning a body
+ * (routes answering 204 No Content have none)
+ */
+export const API_RESPONSE_SCHEMAS: {
+  [R in ApiRoute]?: Schema<ApiRoutes[R]['response']>;
+} = {
+  'GET /profile': profile,
+  'PUT /profile': profile,
+
+  'GET /preferences': preferences,
+  'PUT /preferences': preferences,
+
+  'GET /categories': paginated(category),
+
+  'GET /notes': paginated(note),
+  'POST /notes': note,
+  'GET /notes/:id': note,
+  'PUT /notes/:id': note,
+
+  'GET /dashboard': dashboard,
+
+  'GET /reports': paginated(report),
+  'GET /reports/:id': report,
+  'POST /reports/generate': report,
+
+  'GET /report-deliveries': paginated(reportDelivery),
+  'POST /reports/:id/deliveries/email': object<EmailDeliveryResponseDto>({
+    delivery: object<EmailDeliveryResponseDto['delivery']>({
+      id: string(),
+      status: oneOf(delivery_status_type),
+      channel: oneOf(delivery_channel_type),
+    }),
+  }),
+
+  'POST /feedback': feedback,
+  'GET /feedback/:report_id': feedback,
+
+  'POST /analytics/events': object<AnalyticsEventResponseDto>({ id: number() }),
+  'GET /analytics/events': paginated(analyticsEvent),
+};
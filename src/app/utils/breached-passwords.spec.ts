@@ -0,0 +1,41 @@
+import { isBreachedPassword } from './breached-passwords';
+
+describe('isBreachedPassword', () => {
+  it('should match bundled common passwords exactly', () => {
+    expect(isBreachedPassword('123456')).toBeTrue();
+    expect(isBreachedPassword('letmein')).toBeTrue();
+  });
+
+  it('should match passwords compiled into the filter', () => {
+    ['P@ssw0rd', 'Password1!', 'Autumn2024', '1q2w3e4r5t', 'Aa123456!'].forEach((password) => {
+      expect(isBreachedPassword(password)).withContext(password).toBeTrue();
+    });
+  });
+
+  it('should compare case-sensitively', () => {
+    expect(isBreachedPassword('Password1!')).toBeTrue();
+    expect(isBreachedPassword('pASSWORD1!')).toBeFalse();
+  });
+
+  it('should not match an empty password', () => {
+    expect(isBreachedPassword('')).toBeFalse();
+  });
+
+  it('should rarely match random passwords', () => {
+    const alphabet = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!#$%';
+    let seed = 42;
+    const nextIndex = (): number => {
+      seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+      return seed % alphabet.length;
+    };
+
+    let matches = 0;
+    for (let i = 0; i < 20000; i++) {
+      const password = Array.from({ length: 12 }, () => alphabet[nextIndex()]).join('');
+      if (isBreachedPassword(password)) matches++;
+    }
+
+    // About 1 in a million expected; a few would mean the filter is undersized
+    expect(matches).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,75 @@
+import { COMMON_PASSWORDS } from './common-passwords';
+import { FNV_OFFSET_BASIS, FNV_SECOND_BASIS, fnv1a } from './hash';
+
+/**
+ * Offline check against passwords known from public data breaches.
+ *
+ * COMMON_PASSWORDS is already bundled and checked exactly. The rest of the
+ * list is not shipped: it is compiled into a Bloom filter of 931 bytes.
+ * A password in the list always matches; one that is not matches by chance
+ * about once in a million, so a hit can block submit. Lookups are
+ * synchronous and need no network access, so the result can be part of
+ * PasswordStrengthAnalyzer and form validation.
+ *
+ * Each password is hashed (exact case, UTF-8) with FNV-1a using two offset
+ * bases; bit positions are derived by double hashing (h1 + i * h2) mod size.
+ */
+const BREACHED_PASSWORD_FILTER = {
+  entries: 259, // Passwords compiled into the filter, COMMON_PASSWORDS excluded
+  size: 7448, // Filter size in bits
+  hashes: 20,
+  bits:
+    'eKfzNO4JUd9HH3vW267HbRU2vzJDArQip5lZ4XbkGPAJPl4s4sOVSJ/tN1Bp+rQnjVLYiYo8' +
+    'n90wdJQGf00vOhL5wTD+UZTeKbCvsV0vrU6nUZIHLTyrgsQbDV5WdtCVkitYNn/L7da9v5PK' +
+    'zwA9Bjmw51zo9C1EcdtLM+W2FA+3hE1R8Os/1yBk5sYR9sIIsUDE6un14DBmurWZt20mqwHt' +
+    'BcBSc2dNHBPI4N9n85sUy2mwDhGr2Tfqo9w81qft/Be7+qX9R0wpH+l3EYphuxrwyS9lG5Zc' +
+    'MYfhGwEsxTd/pt8L3EZ7msSiSJrrQZqfRhPsnZOm1aI1BMlYH4PNDTzIU8FuWRxrkz06D82P' +
+    '2BqYgH8iyG7muIfBlHd9TICg6KywohhkXEXXKrrAzeyozaOnvd1n1riLCQS4fbRaQh/v7srj' +
+    'CNZfzQIVW6byHh2pSOx3mzlvg2x31d9aQgISUhW6jHgI05ejzDjHtLMV9J711YMoSezJswtM' +
+    'LGDkBxk8vdRsl1zG7p7tR9wFt6Us3ay7hooAhLh7Tb0HoYoOvhQ4LOHXJCUvSAetHPOxHum1' +
+    'ay429GlIL8O+k10ZG/IxOOS48zC2pZj3Kem39Ka12kMLAQK4aVsWV8+lY/garz0zRPVer4e4' +
+    'IFR3JLj9pO1FRITyZbNYXWPZTbUBCHZ7BIS9jV5+knLKm43wM9QBvxiwgRKZLu6p34ee7DCk' +
+    'FjN1PxKpw20Q00J5CIMUxwH4HFeK4uOjxrxaR7YE0jfME/va6AON2MqkLaNmSm8ptnbTRKsx' +
+    'XNXw7e3mkyYHb+0lJpQ703cZqjJgFp3J2wOZwoClQLycf5CLx3GbbSmU2zdIH8UpB1zNfTzR' +
+    'bnwbXkDuH3pqK3XdkxpImp8ew0NOkkV/5Ss+ourhvXJgGkGqeXC3tsIpdHgF+EBq+mQMuOQC' +
+    'avu8oFqirjbh1cUn5H8PeUZQBttwomsXVF5woWZ+Lb7MHKPD58c4UHyuwq/M/ZZRO9MxQej7' +
+    '8yl/rghEjuaSIPXlqcLjMFmnlIoUVWZjc4dT2m5Bae2qYbcRch0qXQztcl/8EoQqsairKrdz' +
+    'PgT1zd9XSy5kbrFaCilJAP/N6EIdU56d3V4H+PBaiYIVKd9YRmgRy+1+vj1kUKZSpTLYrgqH' +
+    'vjAF7tGCcUBO1QjAdnZnES6yQ3dYcVc3BdjTLOHQXV45wts/LD/sFwFLIDT4N/gTfD3J2cgL' +
+    'xcqUI7Gs9hCsZP9cSQ==',
+};
+
+let filterBits: Uint8Array | null = null;
+
+function getFilterBits(): Uint8Array {
+  if (!filterBits) {
+    const binary = atob(BREACHED_PASSWORD_FILTER.bits);
+    filterBits = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  }
+  return filterBits;
+}
+
+/**
+ * Whether the password appears in the bundled breach list
+ * The filter may report false positives (about 1 in a million), never false negatives
+ * @param password - Password exactly as typed
+ * @returns true if the password should be treated as compromised
+ */
+export function isBreachedPassword(password: string): boolean {
+  if (!password) return false;
+  if (COMMON_PASSWORDS.has(password)) return true;
+
+  const bits = getFilterBits();
+  const bytes = new TextEncoder().encode(password);
+  const h1 = fnv1a(bytes, FNV_OFFSET_BASIS);
+  const h2 = (fnv1a(bytes, FNV_SECOND_BASIS) | 1) >>> 0;
+  const { size, hashes } = BREACHED_PASSWORD_FILTER;
+
+  for (let i = 0; i < hashes; i++) {
+    const index = ((h1 + i * h2) % 0x100000000) % size;
+    if ((bits[index >> 3] & (1 << (index & 7))) === 0) {
+      return false;
+    }
+  }
+  return true;
+}
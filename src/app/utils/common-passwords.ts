@@ -0,0 +1,37 @@
+/**
+ * Frequently leaked passwords and base words, lowercase.
+ * Bundled with the app so strength checks work without a network call.
+ * PasswordStrengthAnalyzer also matches these inside longer passwords
+ * and after undoing common character substitutions (p@ssw0rd -> password).
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456', 'password', '12345678', 'qwerty', '123456789', '12345', '1234',
+  '111111', '1234567', 'dragon', '123123', 'baseball', 'abc123', 'football',
+  'monkey', 'letmein', '696969', 'shadow', 'master', '666666', 'qwertyuiop',
+  '123321', 'mustang', '1234567890', 'michael', '654321', 'superman',
+  '1qaz2wsx', '7777777', '121212', '000000', 'qazwsx', '123qwe', 'killer',
+  'trustno1', 'jordan', 'jennifer', 'zxcvbnm', 'asdfgh', 'hunter', 'buster',
+  'soccer', 'harley', 'batman', 'andrew', 'tigger', 'sunshine', 'iloveyou',
+  'fuckyou', '2000', 'charlie', 'robert', 'thomas', 'hockey', 'ranger',
+  'daniel', 'starwars', 'klaster', '112233', 'george', 'computer',
+  'michelle', 'jessica', 'pepper', '1111', 'zxcvbn', '555555', '11111111',
+  '131313', 'freedom', '777777', 'pass', 'maggie', '159753', 'aaaaaa',
+  'ginger', 'princess', 'joshua', 'cheese', 'amanda', 'summer', 'love',
+  'ashley', 'nicole', 'chelsea', 'biteme', 'matthew', 'access', 'yankees',
+  '987654321', 'dallas', 'austin', 'thunder', 'taylor', 'matrix', 'mobilemail',
+  'mom', 'monitor', 'monitoring', 'montana', 'moon', 'moscow', 'welcome',
+  'admin', 'login', 'passw0rd', 'password1', 'password123', 'qwerty123',
+  'qwe123', 'abcd1234', 'abcdef', 'abc', 'secret', 'solo', 'flower',
+  'hello', 'hottie', 'lovely', 'loveme', 'whatever', 'nothing', 'samsung',
+  'google', 'apple', 'orange', 'banana', 'chocolate', 'cookie', 'butterfly',
+  'purple', 'angel', 'angels', 'friends', 'family', 'forever', 'baby',
+  'babygirl', 'lovers', 'mylove', 'sweety', 'liverpool', 'arsenal',
+  'chelsea1', 'barcelona', 'internet', 'service', 'canada', 'london',
+  'america', 'poland', 'polska', 'warszawa', 'haslo', 'zaq12wsx', 'qwerty1',
+  'asdf', 'asdfghjkl', 'qwer', 'zaq1', '1q2w3e4r', '1q2w3e', 'q1w2e3r4',
+  'test', 'test123', 'guest', 'default', 'changeme', 'root', 'toor',
+  'administrator', 'user', 'demo', 'sample', 'temp', 'pass123', 'letmein1',
+  'welcome1', 'summer2024', 'winter', 'spring', 'autumn', 'monday',
+  'friday', 'sunday', 'january', 'december', 'lifesync', 'journal', 'diary',
+  'reflection', 'notes', 'mindful', 'wellness', 'health', 'fitness',
+]);
@@ -0,0 +1,15 @@
+/**
+ * Formats a remaining duration for countdown labels
+ * @param totalSeconds - Remaining time in seconds
+ * @returns "45s" under a minute, otherwise "m:ss" (e.g. "14:05")
+ */
+export function formatCountdown(totalSeconds: number): string {
+  const seconds = Math.max(Math.ceil(totalSeconds), 0);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,24 @@
+import { FNV_OFFSET_BASIS, fnv1a, hashString } from './hash';
+
+describe('fnv1a', () => {
+  const encode = (value: string): Uint8Array => new TextEncoder().encode(value);
+
+  it('should match the reference FNV-1a 32-bit values', () => {
+    expect(fnv1a(encode(''))).toBe(FNV_OFFSET_BASIS);
+    expect(fnv1a(encode('a'))).toBe(0xe40c292c);
+    expect(fnv1a(encode('foobar'))).toBe(0xbf9cf968);
+  });
+});
+
+describe('hashString', () => {
+  it('should return 16 hex characters', () => {
+    expect(hashString('')).toMatch(/^[0-9a-f]{16}$/);
+    expect(hashString('{"content":"Slept badly"}')).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should be stable and tell inputs apart', () => {
+    expect(hashString('POST /notes {}')).toBe(hashString('POST /notes {}'));
+    expect(hashString('POST /notes {}')).not.toBe(hashString('POST /notes {} '));
+    expect(hashString('Zürich')).not.toBe(hashString('Zurich'));
+  });
+});
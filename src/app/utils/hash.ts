@@ -0,0 +1,36 @@
+const FNV_PRIME = 0x01000193;
+
+/** Standard 32-bit FNV-1a offset basis */
+export const FNV_OFFSET_BASIS = 0x811c9dc5;
+/** Alternate offset basis for a second, independent pass over the same input */
+export const FNV_SECOND_BASIS = 0x050c5d1f;
+
+/**
+ * 32-bit FNV-1a over raw bytes
+ * @param bytes - Input, usually a UTF-8 encoded string
+ * @param basis - Offset basis; use FNV_OFFSET_BASIS unless a second pass is needed
+ * @returns Unsigned 32-bit hash
+ */
+export function fnv1a(bytes: Uint8Array, basis: number = FNV_OFFSET_BASIS): number {
+  let hash = basis;
+  for (const byte of bytes) {
+    hash ^= byte;
+    hash = Math.imul(hash, FNV_PRIME) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Short non-cryptographic fingerprint of a string (16 hex characters)
+ *
+ * Two FNV-1a passes with different offsets, enough to tell request bodies
+ * or response payloads apart; not suitable for anything security related.
+ */
+export function hashString(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  return toHex(fnv1a(bytes, FNV_OFFSET_BASIS)) + toHex(fnv1a(bytes, FNV_SECOND_BASIS));
+}
+
+function toHex(hash: number): string {
+  return hash.toString(16).padStart(8, '0');
+}
@@ -0,0 +1,88 @@
+/**
+ * Promise-based key/value store on top of one IndexedDB object store
+ *
+ * Each store gets its own database, so features can add stores without
+ * coordinating schema versions. Where IndexedDB is unavailable (server-side
+ * rendering, some private browsing modes) or fails to open, values are kept
+ * in memory for the lifetime of the page instead.
+ */
+export class IndexedDbStore<T> {
+  private static readonly STORE_NAME = 'entries';
+
+  private readonly db: Promise<IDBDatabase | null>;
+  private readonly fallback = new Map<string, T>();
+
+  constructor(databaseName: string) {
+    this.db = openDatabase(databaseName, IndexedDbStore.STORE_NAME);
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const db = await this.db;
+    if (!db) return this.fallback.get(key);
+    return request<T | undefined>(this.objectStore(db, 'readonly').get(key));
+  }
+
+  async getAll(): Promise<T[]> {
+    const db = await this.db;
+    if (!db) return [...this.fallback.values()];
+    return request<T[]>(this.objectStore(db, 'readonly').getAll());
+  }
+
+  async put(key: string, value: T): Promise<void> {
+    const db = await this.db;
+    if (!db) {
+      this.fallback.set(key, value);
+      return;
+    }
+    await request(this.objectStore(db, 'readwrite').put(value, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.db;
+    if (!db) {
+      this.fallback.delete(key);
+      return;
+    }
+    await request(this.objectStore(db, 'readwrite').delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.db;
+    if (!db) {
+      this.fallback.clear();
+      return;
+    }
+    await request(this.objectStore(db, 'readwrite').clear());
+  }
+
+  private objectStore(db: IDBDatabase, mode: IDBTransactionMode): IDBObjectStore {
+    return db.transaction(IndexedDbStore.STORE_NAME, mode).objectStore(IndexedDbStore.STORE_NAME);
+  }
+}
+
+function openDatabase(name: string, storeName: string): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    try {
+      const open = indexedDB.open(name, 1);
+      open.onupgradeneeded = (): void => {
+        open.result.createObjectStore(storeName);
+      };
+      open.onsuccess = (): void => resolve(open.result);
+      open.onerror = (): void => resolve(null);
+      open.onblocked = (): void => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+function request<T>(req: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = (): void => resolve(req.result as T);
+    req.onerror = (): void => reject(req.error);
+  });
+}
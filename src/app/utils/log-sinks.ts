@@ -0,0 +1,54 @@
+import { LogEntry } from '../../types';
+
+/**
+ * Destination of shipped log entries (see LOG_SINK)
+ * Entries arrive redacted, in the order they were logged.
+ */
+export type LogSink = {
+  write(entries: LogEntry[]): void;
+};
+
+/**
+ * Writes entries to the browser console, the default sink
+ */
+export class ConsoleLogSink implements LogSink {
+  write(entries: LogEntry[]): void {
+    entries.forEach(writeToConsole);
+  }
+}
+
+/**
+ * Posts batches as `{ entries }` JSON to a log collector, e.g. one running
+ * locally during development. `keepalive` lets the last batch leave while
+ * the page unloads; batches the collector does not accept go to the console.
+ */
+export class HttpCollectorLogSink implements LogSink {
+  constructor(private readonly url: string) {}
+
+  write(entries: LogEntry[]): void {
+    if (typeof fetch === 'undefined') {
+      entries.forEach(writeToConsole);
+      return;
+    }
+
+    fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ entries }),
+      keepalive: true,
+    })
+      .then((response) => {
+        if (!response.ok) throw new Error(`Collector answered ${response.status}`);
+      })
+      .catch(() => entries.forEach(writeToConsole));
+  }
+}
+
+export function writeToConsole({ level, scope, message, context }: LogEntry): void {
+  const text = scope ? `[${scope}] ${message}` : message;
+  if (context === undefined) {
+    console[level](text);
+  } else {
+    console[level](text, context);
+  }
+}
@@ -0,0 +1,30 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+
+/** 6-digit code from an authenticator app */
+export const TOTP_CODE_PATTERN = /^\d{6}$/;
+/** Single-use recovery code, e.g. abcd-1234 */
+export const RECOVERY_CODE_PATTERN = /^[A-Za-z0-9]{4,5}-?[A-Za-z0-9]{4,5}$/;
+
+/**
+ * Removes the whitespace authenticator apps and users put in codes ("123 456")
+ * @param value - Raw form value
+ * @returns Code as it is sent to the API
+ */
+export function normalizeMfaCode(value: unknown): string {
+  return String(value ?? '').replace(/\s/g, '');
+}
+
+/**
+ * Validates an MFA code after whitespace is stripped
+ * Reports the same `pattern` error as Validators.pattern, so templates need no changes
+ * @param pattern - TOTP_CODE_PATTERN or RECOVERY_CODE_PATTERN
+ */
+export function mfaCodeValidator(pattern: RegExp): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    if (!control.value) return null;
+    const code = normalizeMfaCode(control.value);
+    return pattern.test(code)
+      ? null
+      : { pattern: { requiredPattern: String(pattern), actualValue: code } };
+  };
+}
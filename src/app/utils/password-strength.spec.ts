@@ -0,0 +1,89 @@
+import { PasswordStrengthAnalyzer } from './password-strength';
+
+const SEQUENCE_WARNING = 'Avoid sequences like "abcd", "1234" or "qwerty"';
+const REPEAT_WARNING = 'Avoid repeated characters or patterns';
+const EMAIL_WARNING = "Don't include your email address";
+
+describe('PasswordStrengthAnalyzer', () => {
+  describe('length caps', () => {
+    it('should rate passwords under 8 characters weak', () => {
+      const result = PasswordStrengthAnalyzer.analyze('Xk#9qL!');
+
+      expect(result.score).toBeLessThanOrEqual(1);
+      expect(result.level).toBe('weak');
+    });
+
+    it('should keep passwords under 12 characters below strong', () => {
+      const result = PasswordStrengthAnalyzer.analyze('Xk#9qL!vR2$');
+
+      expect(result.entropyBits).toBeGreaterThan(64);
+      expect(result.score).toBe(3);
+      expect(result.feedback).toContain('Use at least 12 characters');
+    });
+
+    it('should rate long random passwords strong', () => {
+      const result = PasswordStrengthAnalyzer.analyze('Xk#9qL!vR2$wTz7^');
+
+      expect(result.score).toBe(4);
+      expect(result.level).toBe('strong');
+      expect(result.feedback).toEqual([]);
+    });
+  });
+
+  it('should score breached passwords 0 whatever their length', () => {
+    const result = PasswordStrengthAnalyzer.analyze('Password1!');
+
+    expect(result.isBreached).toBeTrue();
+    expect(result.score).toBe(0);
+    expect(result.entropyBits).toBe(0);
+    expect(result.feedback[0]).toBe('This password appeared in a data breach. Choose a different one.');
+  });
+
+  it('should penalize the email local-part', () => {
+    const password = 'Jane.Doe#7Qv!';
+    const withoutEmail = PasswordStrengthAnalyzer.analyze(password);
+    const withEmail = PasswordStrengthAnalyzer.analyze(password, { email: 'jane.doe@example.com' });
+
+    expect(withEmail.feedback).toContain(EMAIL_WARNING);
+    expect(withoutEmail.feedback).not.toContain(EMAIL_WARNING);
+    expect(withEmail.entropyBits).toBeLessThan(withoutEmail.entropyBits);
+  });
+
+  it('should ignore email local-parts shorter than 3 characters', () => {
+    expect(PasswordStrengthAnalyzer.analyze('Jo#7Qv!mZ2', { email: 'jo@example.com' }).feedback).not.toContain(
+      EMAIL_WARNING
+    );
+  });
+
+  describe('sequences', () => {
+    ['K#abcd!Q', 'K#dcba!Q', 'K#wert!Q', 'K#7890!Q', 'K#1098!Q'].forEach((password) => {
+      it(`should detect the sequence in ${password}`, () => {
+        expect(PasswordStrengthAnalyzer.analyze(password).feedback).toContain(SEQUENCE_WARNING);
+      });
+    });
+
+    it('should not report unrelated characters as a sequence', () => {
+      expect(PasswordStrengthAnalyzer.analyze('K#ad8w!Q').feedback).not.toContain(SEQUENCE_WARNING);
+    });
+
+    it('should charge a sequence far less than random characters', () => {
+      expect(PasswordStrengthAnalyzer.analyze('Zq#abcdefgh!').entropyBits).toBeLessThan(
+        PasswordStrengthAnalyzer.analyze('Zq#akdtewgb!').entropyBits
+      );
+    });
+  });
+
+  describe('repeats', () => {
+    it('should detect repeated characters and chunks', () => {
+      expect(PasswordStrengthAnalyzer.analyze('K#mmmm!Q').feedback).toContain(REPEAT_WARNING);
+      expect(PasswordStrengthAnalyzer.analyze('K#kq7kq7!Q').feedback).toContain(REPEAT_WARNING);
+    });
+
+    it('should charge a repeated chunk about once', () => {
+      const repeated = PasswordStrengthAnalyzer.analyze('kq7kq7kq7kq7');
+
+      expect(repeated.entropyBits).toBeLessThan(20);
+      expect(repeated.score).toBe(0);
+    });
+  });
+});
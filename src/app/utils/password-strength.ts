@@ -1,43 +1,123 @@
-import { PasswordStrengthResult } from '../../types';
+import { PasswordStrengthContext, PasswordStrengthResult } from '../../types';
+import { COMMON_PASSWORDS } from './common-passwords';
+import { isBreachedPassword } from './breached-passwords';
+
+// A guessable part of the password and what it really costs an attacker
+type PatternMatch = {
+  start: number;
+  end: number; // exclusive
+  bits: number; // entropy of the matched part
+  warning: string;
+};
+
+const KEYBOARD_SEQUENCES = [
+  'abcdefghijklmnopqrstuvwxyz',
+  '0123456789',
+  '1234567890', // number row, where 0 follows 9
+  'qwertyuiop',
+  'asdfghjkl',
+  'zxcvbnm',
+  '1qaz2wsx3edc4rfv5tgb6yhn7ujm8ik9ol0p',
+];
+
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '4': 'a',
+  '@': 'a',
+  '8': 'b',
+  '3': 'e',
+  '6': 'g',
+  '1': 'i',
+  '!': 'i',
+  '0': 'o',
+  '5': 's',
+  '$': 's',
+  '7': 't',
+  '+': 't',
+  '2': 'z',
+};
+
+const WARNINGS = {
+  breached: 'This password appeared in a data breach. Choose a different one.',
+  common: 'Avoid common passwords and words',
+  sequence: 'Avoid sequences like "abcd", "1234" or "qwerty"',
+  repeat: 'Avoid repeated characters or patterns',
+  date: 'Avoid dates and years',
+  email: "Don't include your email address",
+  length: 'Use at least 12 characters',
+};
+
+// Only the first characters are scored; longer passwords are strong anyway
+const MAX_ANALYZED_LENGTH = 128;
+const MIN_LENGTH = 6;
+const RECOMMENDED_LENGTH = 12;
+
+// Offline attack against a slow password hash (bcrypt-like)
+const GUESSES_PER_SECOND = 1e4;
+
+// Entropy needed for scores 1-4
+const SCORE_THRESHOLDS_BITS = [28, 36, 50, 64];
 
 /**
  * PasswordStrengthAnalyzer
  *
- * Utility class for analyzing password strength based on multiple criteria.
- * Provides a score (0-4), strength level, and actionable feedback.
+ * Estimates how hard a password is to guess and turns it into a score
+ * (0-4), a strength level, actionable feedback and a crack-time estimate.
+ *
+ * The estimate starts from length-based entropy over the character classes
+ * used, then replaces the entropy of guessable parts with what they actually
+ * cost an attacker:
+ * - Common passwords from a bundled list, also inside longer passwords and
+ *   with common substitutions undone (p@ssw0rd)
+ * - Keyboard and alphabet sequences (qwerty, abcd, 4321)
+ * - Repeated characters and patterns (aaaa, abcabc)
+ * - Dates and years (1990, 12/05/1990, 19900512)
+ * - The user's email local-part, when provided
  *
- * Criteria analyzed:
- * - Minimum length (6+ characters)
- * - Uppercase letters presence
- * - Lowercase letters presence
- * - Numeric digits presence
- * - Special characters presence
+ * Passwords found in the bundled breach filter (see isBreachedPassword) are
+ * tried first by attackers, so they score 0 whatever their entropy.
+ *
+ * The character-class `criteria` are still reported for the checklist UI.
  */
 export class PasswordStrengthAnalyzer {
   /**
    * Analyzes password strength and returns detailed feedback
    * @param password - The password to analyze
-   * @returns PasswordStrengthResult with score, level, criteria met, and feedback
+   * @param context - Optional user data the password should not contain
+   * @returns PasswordStrengthResult with score, level, criteria, feedback and crack time
    */
-  static analyze(password: string): PasswordStrengthResult {
+  static analyze(
+    password: string,
+    context: PasswordStrengthContext = {}
+  ): PasswordStrengthResult {
     const criteria = {
-      hasMinLength: password.length >= 6,
+      hasMinLength: password.length >= MIN_LENGTH,
       hasUppercase: /[A-Z]/.test(password),
       hasLowercase: /[a-z]/.test(password),
       hasNumbers: /[0-9]/.test(password),
       hasSpecialChars: /[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password),
     };
 
-    // Calculate score based on criteria met
-    let score = 0;
-    Object.values(criteria).forEach((met) => {
-      if (met) score++;
-    });
+    const analyzed = password.slice(0, MAX_ANALYZED_LENGTH);
+    const isBreached = isBreachedPassword(password);
+    const matches = this.selectMatches(this.findPatterns(analyzed, context));
+    const entropyBits = isBreached ? 0 : this.estimateEntropy(analyzed, matches);
+    const crackTimeSeconds = this.estimateCrackTimeSeconds(entropyBits);
 
+    const score = isBreached ? 0 : this.entropyToScore(entropyBits, password.length);
     const level = this.scoreToLevel(score);
-    const feedback = this.generateFeedback(criteria);
+    const feedback = this.generateFeedback(criteria, matches, password.length);
+    if (isBreached) feedback.unshift(WARNINGS.breached);
 
-    return { score, level, feedback, criteria };
+    return {
+      score,
+      level,
+      feedback,
+      criteria,
+      isBreached,
+      entropyBits: Math.round(entropyBits * 10) / 10,
+      crackTimeSeconds,
+      crackTimeDisplay: this.formatCrackTime(crackTimeSeconds),
+    };
   }
 
   /**
@@ -55,13 +135,291 @@ export class PasswordStrengthAnalyzer {
   }
 
   /**
-   * Generates actionable feedback based on which criteria are not met
+   * Maps entropy to a 0-4 score; passwords under the minimum length never
+   * rate above 'weak', and short ones never reach 'strong'
+   */
+  private static entropyToScore(entropyBits: number, length: number): number {
+    let score = SCORE_THRESHOLDS_BITS.filter((bits) => entropyBits >= bits).length;
+    if (length < 8) score = Math.min(score, 1);
+    if (length < RECOMMENDED_LENGTH) score = Math.min(score, 3);
+    return score;
+  }
+
+  /**
+   * Length-based entropy, with matched patterns charged at their own cost
+   */
+  private static estimateEntropy(password: string, matches: PatternMatch[]): number {
+    const bitsPerChar = Math.log2(this.getCharsetSize(password));
+    const covered = matches.reduce((total, match) => total + match.end - match.start, 0);
+    const patternBits = matches.reduce((total, match) => total + match.bits, 0);
+    return (password.length - covered) * bitsPerChar + patternBits;
+  }
+
+  private static getCharsetSize(password: string): number {
+    let size = 0;
+    if (/[a-z]/.test(password)) size += 26;
+    if (/[A-Z]/.test(password)) size += 26;
+    if (/[0-9]/.test(password)) size += 10;
+    if (/[\x20-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]/.test(password)) size += 33;
+    if (/[^\x20-\x7e]/.test(password)) size += 100;
+    return Math.max(size, 1);
+  }
+
+  private static findPatterns(
+    password: string,
+    context: PasswordStrengthContext
+  ): PatternMatch[] {
+    return [
+      ...this.findCommonWords(password),
+      ...this.findSequences(password),
+      ...this.findRepeats(password),
+      ...this.findDates(password),
+      ...this.findEmailLocalPart(password, context.email),
+    ];
+  }
+
+  /**
+   * Keep the matches that save the most entropy, without overlaps
+   */
+  private static selectMatches(matches: PatternMatch[]): PatternMatch[] {
+    const bitsPerCharEstimate = Math.log2(26);
+    const bySavings = [...matches].sort(
+      (a, b) =>
+        (b.end - b.start) * bitsPerCharEstimate - b.bits -
+        ((a.end - a.start) * bitsPerCharEstimate - a.bits)
+    );
+
+    const selected: PatternMatch[] = [];
+    for (const match of bySavings) {
+      const overlaps = selected.some(
+        (other) => match.start < other.end && other.start < match.end
+      );
+      if (!overlaps) selected.push(match);
+    }
+    return selected;
+  }
+
+  /**
+   * Common passwords, also as part of a longer password and in leetspeak
+   */
+  private static findCommonWords(password: string): PatternMatch[] {
+    const lower = password.toLowerCase();
+    const unleeted = [...lower].map((char) => LEET_SUBSTITUTIONS[char] ?? char).join('');
+    // Rank-free approximation: any entry of the list is one of its guesses
+    const listBits = Math.log2(COMMON_PASSWORDS.size);
+    const matches: PatternMatch[] = [];
+
+    for (let start = 0; start < lower.length; start++) {
+      for (let end = lower.length; end - start >= 4; end--) {
+        const plain = lower.slice(start, end);
+        const substituted = unleeted.slice(start, end);
+        if (!COMMON_PASSWORDS.has(plain) && !COMMON_PASSWORDS.has(substituted)) {
+          continue;
+        }
+
+        const original = password.slice(start, end);
+        // Capitalization and substitutions add a little to the attacker's work
+        const variationBits =
+          (original !== plain ? 1 : 0) + (COMMON_PASSWORDS.has(plain) ? 0 : 1);
+        matches.push({ start, end, bits: listBits + variationBits, warning: WARNINGS.common });
+        break;
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Runs of 3+ consecutive keys or letters, forwards or backwards
+   */
+  private static findSequences(password: string): PatternMatch[] {
+    const lower = password.toLowerCase();
+    const matches: PatternMatch[] = [];
+
+    for (let start = 0; start < lower.length - 2; ) {
+      let end = start + 1;
+      let direction = 0;
+
+      while (end < lower.length) {
+        const step = this.getSequenceStep(lower[end - 1], lower[end]);
+        if (step === 0 || (direction !== 0 && step !== direction)) break;
+        direction = step;
+        end++;
+      }
+
+      if (end - start >= 3) {
+        // Knowing the start and direction of the run is all that is needed
+        const bits = Math.log2(26) + 1 + Math.log2(end - start);
+        matches.push({ start, end, bits, warning: WARNINGS.sequence });
+        start = end;
+      } else {
+        start++;
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * 1 when `next` follows `current` on a keyboard row or in the alphabet,
+   * -1 when it precedes it, 0 otherwise
+   */
+  private static getSequenceStep(current: string, next: string): number {
+    for (const sequence of KEYBOARD_SEQUENCES) {
+      const index = sequence.indexOf(current);
+      if (index === -1) continue;
+      if (sequence[index + 1] === next) return 1;
+      if (index > 0 && sequence[index - 1] === next) return -1;
+    }
+    return 0;
+  }
+
+  /**
+   * Repeated characters (aaa) and repeated chunks (abcabc)
+   */
+  private static findRepeats(password: string): PatternMatch[] {
+    const matches: PatternMatch[] = [];
+    const repeatPattern = /(.+?)\1+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = repeatPattern.exec(password)) !== null) {
+      const [whole, unit] = match;
+      if (whole.length < 3) continue;
+
+      const unitBits = unit.length * Math.log2(this.getCharsetSize(unit));
+      const bits = unitBits + Math.log2(whole.length / unit.length);
+      matches.push({
+        start: match.index,
+        end: match.index + whole.length,
+        bits,
+        warning: WARNINGS.repeat,
+      });
+    }
+    return matches;
+  }
+
+  /**
+   * Years and full dates with or without separators
+   */
+  private static findDates(password: string): PatternMatch[] {
+    const matches: PatternMatch[] = [];
+    const yearBits = Math.log2(120);
+    const dateBits = Math.log2(366 * 120);
+
+    const patterns: { regex: RegExp; bits: number }[] = [
+      // 12/05/1990, 12-5-90, 1990.05.12
+      { regex: /\d{1,4}([-/._])\d{1,2}\1\d{1,4}/g, bits: dateBits },
+      // 19900512, 12051990, 120590
+      { regex: /\d{6,8}/g, bits: dateBits },
+      { regex: /(?:19|20)\d{2}/g, bits: yearBits },
+    ];
+
+    for (const { regex, bits } of patterns) {
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(password)) !== null) {
+        if (bits === dateBits && !this.looksLikeDate(match[0])) continue;
+        matches.push({
+          start: match.index,
+          end: match.index + match[0].length,
+          bits,
+          warning: WARNINGS.date,
+        });
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Whether a digit string splits into a plausible day, month and year
+   */
+  private static looksLikeDate(value: string): boolean {
+    const digits = value.replace(/\D/g, '');
+    if (digits.length < 4 || digits.length > 8) return false;
+
+    const candidates: [string, string, string][] = [];
+    const separated = value.split(/[-/._]/);
+    if (separated.length === 3) {
+      candidates.push([separated[0], separated[1], separated[2]]);
+      candidates.push([separated[2], separated[1], separated[0]]);
+    } else if (digits.length === 8) {
+      candidates.push([digits.slice(0, 2), digits.slice(2, 4), digits.slice(4)]); // ddmmyyyy
+      candidates.push([digits.slice(6), digits.slice(4, 6), digits.slice(0, 4)]); // yyyymmdd
+    } else if (digits.length === 6) {
+      candidates.push([digits.slice(0, 2), digits.slice(2, 4), digits.slice(4)]); // ddmmyy
+    }
+
+    return candidates.some(([day, month, year]) => {
+      const d = Number(day);
+      const m = Number(month);
+      const y = Number(year);
+      const validYear = year.length === 2 || (y >= 1900 && y <= 2099);
+      // Accept both day-month and month-day order
+      return (
+        validYear &&
+        ((d >= 1 && d <= 31 && m >= 1 && m <= 12) || (m >= 1 && m <= 31 && d >= 1 && d <= 12))
+      );
+    });
+  }
+
+  /**
+   * The part of the user's email before '@', which attackers try first
+   */
+  private static findEmailLocalPart(
+    password: string,
+    email: string | null | undefined
+  ): PatternMatch[] {
+    const localPart = email?.split('@')[0]?.toLowerCase() ?? '';
+    if (localPart.length < 3) return [];
+
+    const start = password.toLowerCase().indexOf(localPart);
+    if (start === -1) return [];
+
+    return [{ start, end: start + localPart.length, bits: 1, warning: WARNINGS.email }];
+  }
+
+  /**
+   * Average time to find the password, i.e. half of all guesses
+   */
+  private static estimateCrackTimeSeconds(entropyBits: number): number {
+    return Math.pow(2, entropyBits) / 2 / GUESSES_PER_SECOND;
+  }
+
+  private static formatCrackTime(seconds: number): string {
+    const units: [string, number][] = [
+      ['year', 365 * 24 * 3600],
+      ['month', 30 * 24 * 3600],
+      ['day', 24 * 3600],
+      ['hour', 3600],
+      ['minute', 60],
+      ['second', 1],
+    ];
+
+    if (seconds < 1) return 'less than a second';
+    if (seconds >= 100 * units[0][1]) return 'centuries';
+
+    for (const [unit, unitSeconds] of units) {
+      if (seconds >= unitSeconds) {
+        const count = Math.round(seconds / unitSeconds);
+        return `${count} ${unit}${count === 1 ? '' : 's'}`;
+      }
+    }
+    return 'less than a second';
+  }
+
+  /**
+   * Generates actionable feedback: warnings for detected patterns first,
+   * then unmet character criteria
    * @param criteria - Object indicating which criteria are met
-   * @returns Array of feedback strings for unmet criteria
+   * @param matches - Guessable patterns found in the password
+   * @param length - Password length
+   * @returns Array of feedback strings
    */
-  private static generateFeedback(criteria: Record<string, boolean>): string[] {
-    const feedback = [];
+  private static generateFeedback(
+    criteria: Record<string, boolean>,
+    matches: PatternMatch[],
+    length: number
+  ): string[] {
+    const feedback = [...new Set(matches.map((match) => match.warning))];
     if (!criteria['hasMinLength']) feedback.push('At least 6 characters');
+    else if (length < RECOMMENDED_LENGTH) feedback.push(WARNINGS.length);
     if (!criteria['hasUppercase']) feedback.push('Include uppercase letter');
     if (!criteria['hasLowercase']) feedback.push('Include lowercase letter');
     if (!criteria['hasNumbers']) feedback.push('Include a number');
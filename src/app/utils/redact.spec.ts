@@ -0,0 +1,109 @@
+import { HttpHeaders } from '@angular/common/http';
+import { redact, redactText } from './redact';
+
+describe('redact', () => {
+  it('should replace credential values', () => {
+    expect(
+      redact({
+        access_token: 'abc',
+        refresh_token: 'def',
+        password: 'hunter2',
+        Authorization: 'Bearer abc',
+        email_confirmed: true,
+      })
+    ).toEqual({
+      access_token: '[REDACTED]',
+      refresh_token: '[REDACTED]',
+      password: '[REDACTED]',
+      Authorization: '[REDACTED]',
+      email_confirmed: true,
+    });
+  });
+
+  it('should replace MFA codes', () => {
+    expect(
+      redact({ mfa_token: 'abc', mfa_code: '123456', totp_code: '123456', recovery_code: 'abcd-1234' })
+    ).toEqual({
+      mfa_token: '[REDACTED]',
+      mfa_code: '[REDACTED]',
+      totp_code: '[REDACTED]',
+      recovery_code: '[REDACTED]',
+    });
+  });
+
+  it('should keep error codes', () => {
+    expect(redact({ error: { code: 'VALIDATION_ERROR' }, error_code: 'RATE_LIMITED' })).toEqual({
+      error: { code: 'VALIDATION_ERROR' },
+      error_code: 'RATE_LIMITED',
+    });
+  });
+
+  it('should replace TOTP enrollment secrets but keep counters', () => {
+    expect(
+      redact({
+        secret: 'JBSWY3DPEHPK3PXP',
+        otpauth_uri: 'otpauth://totp/LifeSync?secret=JBSWY3DPEHPK3PXP',
+        qr_code: 'data:image/svg+xml;base64,AAAA',
+        recovery_codes: ['abcd-1234'],
+        recovery_codes_remaining: 8,
+      })
+    ).toEqual({
+      secret: '[REDACTED]',
+      otpauth_uri: '[REDACTED]',
+      qr_code: '[REDACTED]',
+      recovery_codes: '[REDACTED]',
+      recovery_codes_remaining: 8,
+    });
+  });
+
+  it('should keep only the length of user text', () => {
+    expect(redact({ content: 'Slept badly', comment: 'Great app' })).toEqual({
+      content: '[11 chars]',
+      comment: '[9 chars]',
+    });
+  });
+
+  it('should redact nested values and arrays', () => {
+    expect(redact({ body: { notes: [{ content: 'abc', token: 'x' }] } })).toEqual({
+      body: { notes: [{ content: '[3 chars]', token: '[REDACTED]' }] },
+    });
+  });
+
+  it('should reduce errors to name, message and stack', () => {
+    const error = new Error('Invite sent to jane@example.com');
+    const result = redact(error) as Record<string, unknown>;
+
+    expect(Object.keys(result)).toEqual(['name', 'message', 'stack']);
+    expect(result['message']).toBe('Invite sent to [EMAIL]');
+  });
+
+  it('should cut cycles and deep nesting', () => {
+    const cyclic: Record<string, unknown> = { name: 'root' };
+    cyclic['self'] = cyclic;
+    const deep = { a: { b: { c: { d: { e: { f: { g: 1 } } } } } } };
+
+    expect(redact(cyclic)).toEqual({ name: 'root', self: '[circular]' });
+    expect(JSON.stringify(redact(deep))).toContain('[…]');
+  });
+
+  it('should not expose headers', () => {
+    expect(redact({ headers: new HttpHeaders({ Cookie: 'sid=1' }) })).toEqual({ headers: '[headers]' });
+  });
+});
+
+describe('redactText', () => {
+  it('should mask emails, bearer tokens and JWTs', () => {
+    expect(redactText('jane@example.com sent Bearer abc.def')).toBe('[EMAIL] sent Bearer [REDACTED]');
+    expect(redactText('token eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig')).toBe('token [REDACTED]');
+  });
+
+  it('should mask tokens, codes and secrets in URLs', () => {
+    expect(redactText('/auth/callback?code=abc&next=/dashboard')).toBe(
+      '/auth/callback?code=[REDACTED]&next=/dashboard'
+    );
+    expect(redactText('/reset#access_token=abc')).toBe('/reset#access_token=[REDACTED]');
+    expect(redactText('otpauth://totp/x?secret=ABC&issuer=y')).toBe(
+      'otpauth://totp/x?secret=[REDACTED]&issuer=y'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { HttpHeaders } from '@angular/common/http';
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+// Keys whose values are credentials, including MFA codes (mfa_code, totp_code, recovery_codes, qr_code)
+// A bare `code` is left visible: it is mostly an API error code
+const SECRET_KEY = /token|password|secret|authorization|cookie|api[-_]?key|otp|^(?:mfa|recovery|qr)_codes?$/i;
+// Keys holding what users wrote: note content, feedback comments
+const USER_TEXT_KEYS = new Set(['content', 'comment']);
+
+const TEXT_PATTERNS: [RegExp, string][] = [
+  [/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, '[EMAIL]'],
+  [/Bearer\s+[\w.~+/=-]+/gi, `Bearer ${REDACTED}`],
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]*/g, REDACTED],
+  [/([?&#](?:[\w-]*token|code|secret)=)[^&#\s]+/gi, `$1${REDACTED}`],
+];
+
+/**
+ * Copy of a value safe to log, following the PII redaction rule of the API plan
+ * - Emails, bearer tokens, JWTs and tokens or secrets in URLs are masked in any string
+ * - Credentials (token, password, authorization, MFA code... keys) are replaced
+ * - Note content and feedback comments keep only their length
+ * - Errors become `{ name, message, stack }`; cycles and deep nesting are cut
+ */
+export function redact(value: unknown): unknown {
+  return redactValue(value, 0, new WeakSet());
+}
+
+export function redactText(text: string): string {
+  return TEXT_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+function redactValue(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') return redactText(value);
+  if (typeof value === 'function' || typeof value === 'symbol') return `[${typeof value}]`;
+  if (typeof value === 'bigint') return value.toString();
+  if (value === null || typeof value !== 'object') return value;
+
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+  if (value instanceof HttpHeaders) return '[headers]';
+  if (seen.has(value)) return '[circular]';
+  if (depth >= MAX_DEPTH) return '[…]';
+  seen.add(value);
+  const result = redactObject(value, depth, seen);
+  seen.delete(value);
+  return result;
+}
+
+function redactObject(value: object, depth: number, seen: WeakSet<object>): unknown {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      stack: value.stack && redactText(value.stack),
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1, seen));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => {
+      if (item === null || item === undefined) return [key, item];
+      if (SECRET_KEY.test(key)) return [key, REDACTED];
+      if (USER_TEXT_KEYS.has(key) && typeof item === 'string') return [key, `[${item.length} chars]`];
+      return [key, redactValue(item, depth + 1, seen)];
+    })
+  );
+}
@@ -0,0 +1,70 @@
+import { array, boolean, nullable, number, object, oneOf, record, string, unknown } from './schema';
+
+describe('schema', () => {
+  type Summary = {
+    id: string;
+    count: number;
+    active: boolean;
+    status: 'draft' | 'sent';
+    note: string | null;
+    tags: string[];
+    totals: Record<string, number>;
+    payload: unknown;
+  };
+
+  const summary = object<Summary>({
+    id: string(),
+    count: number(),
+    active: boolean(),
+    status: oneOf(['draft', 'sent'] as const),
+    note: nullable(string()),
+    tags: array(string()),
+    totals: record(number()),
+    payload: unknown(),
+  });
+
+  const valid: Summary = {
+    id: 'a',
+    count: 1,
+    active: true,
+    status: 'sent',
+    note: null,
+    tags: ['x'],
+    totals: { work: 2 },
+    payload: { any: 'thing' },
+  };
+
+  it('should accept a matching value and extra keys', () => {
+    expect(summary.validate(valid)).toEqual([]);
+    expect(summary.validate({ ...valid, added_later: 1 })).toEqual([]);
+  });
+
+  it('should report every mismatch with its path', () => {
+    const issues = summary.validate({
+      ...valid,
+      count: 'one',
+      status: 'archived',
+      tags: ['x', 2],
+      totals: { work: NaN },
+    });
+
+    expect(issues).toEqual([
+      { path: 'count', expected: 'number', received: 'string' },
+      { path: 'status', expected: '"draft" | "sent"', received: '"archived"' },
+      { path: 'tags.1', expected: 'string', received: 'number' },
+      { path: 'totals.work', expected: 'number', received: 'number' },
+    ]);
+  });
+
+  it('should report missing keys and wrong containers', () => {
+    const { note: _note, ...withoutNote } = valid;
+
+    expect(summary.validate(withoutNote)).toEqual([
+      { path: 'note', expected: 'string', received: 'undefined' },
+    ]);
+    expect(summary.validate([])).toEqual([{ path: '', expected: 'object', received: 'array' }]);
+    expect(array(string()).validate(null, 'items')).toEqual([
+      { path: 'items', expected: 'string[]', received: 'null' },
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Minimal runtime schemas for API responses.
+ *
+ * A Schema<T> checks that an unknown value has the shape of T and reports
+ * every mismatch with the path of the bad field (e.g. `summary.notes_count.abc`).
+ * `object<T>()` requires a schema for every key of T, so a DTO change in
+ * src/types.ts that is not reflected here fails to compile.
+ */
+
+export type SchemaIssue = {
+  path: string; // Dotted path from the response root, '' for the root itself
+  expected: string;
+  received: string;
+};
+
+export type Schema<T> = {
+  readonly expected: string;
+  validate(value: unknown, path?: string): SchemaIssue[];
+  // Type carrier only, never set at runtime
+  readonly __type?: T;
+};
+
+type ObjectShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+function createSchema<T>(
+  expected: string,
+  check: (value: unknown, path: string) => SchemaIssue[]
+): Schema<T> {
+  return { expected, validate: (value, path = '') => check(value, path) };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function issue(path: string, expected: string, value: unknown): SchemaIssue[] {
+  return [{ path, expected, received: describe(value) }];
+}
+
+function childPath(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+export function string(): Schema<string> {
+  return createSchema('string', (value, path) =>
+    typeof value === 'string' ? [] : issue(path, 'string', value)
+  );
+}
+
+export function number(): Schema<number> {
+  return createSchema('number', (value, path) =>
+    typeof value === 'number' && Number.isFinite(value) ? [] : issue(path, 'number', value)
+  );
+}
+
+export function boolean(): Schema<boolean> {
+  return createSchema('boolean', (value, path) =>
+    typeof value === 'boolean' ? [] : issue(path, 'boolean', value)
+  );
+}
+
+/**
+ * Any value, for JSON columns whose content the client does not interpret
+ */
+export function unknown<T = unknown>(): Schema<T> {
+  return createSchema('unknown', () => []);
+}
+
+export function oneOf<T extends string | number>(values: readonly T[]): Schema<T> {
+  const expected = values.map((value) => JSON.stringify(value)).join(' | ');
+  return createSchema(expected, (value, path) =>
+    values.includes(value as T)
+      ? []
+      : [{ path, expected, received: JSON.stringify(value) ?? describe(value) }]
+  );
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return createSchema(`${schema.expected} | null`, (value, path) =>
+    value === null ? [] : schema.validate(value, path)
+  );
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return createSchema(`${item.expected}[]`, (value, path) =>
+    Array.isArray(value)
+      ? value.flatMap((element, index) => item.validate(element, childPath(path, index)))
+      : issue(path, `${item.expected}[]`, value)
+  );
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return createSchema(`Record<string, ${item.expected}>`, (value, path) =>
+    isPlainObject(value)
+      ? Object.entries(value).flatMap(([key, element]) =>
+          item.validate(element, childPath(path, key))
+        )
+      : issue(path, 'object', value)
+  );
+}
+
+/**
+ * Object with exactly the keys of T checked; extra keys are allowed
+ */
+export function object<T>(shape: ObjectShape<T>): Schema<T> {
+  return createSchema('object', (value, path) =>
+    isPlainObject(value)
+      ? Object.entries<Schema<unknown>>(shape).flatMap(([key, schema]) =>
+          schema.validate(value[key], childPath(path, key))
+        )
+      : issue(path, 'object', value)
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
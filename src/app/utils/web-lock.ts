@@ -0,0 +1,43 @@
+import { Observable, Subscription, defer } from 'rxjs';
+import { finalize } from 'rxjs/operators';
+
+/**
+ * Run `work` while holding a Web Lock shared by every tab of the origin
+ *
+ * The lock is requested on subscribe and released when `work` completes,
+ * fails or is unsubscribed; a subscriber leaving while still waiting
+ * withdraws the request. Where the Web Locks API is missing (older
+ * browsers, server-side rendering) `work` runs without a lock.
+ */
+export function withWebLock<T>(name: string, work: () => Observable<T>): Observable<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return defer(work);
+  }
+
+  return new Observable<T>((subscriber) => {
+    const abort = new AbortController();
+    let inner: Subscription | null = null;
+
+    navigator.locks
+      .request(
+        name,
+        { signal: abort.signal },
+        () =>
+          new Promise<void>((release) => {
+            inner = work()
+              .pipe(finalize(() => release()))
+              .subscribe(subscriber);
+          })
+      )
+      .catch((error: unknown) => {
+        if (!abort.signal.aborted) {
+          subscriber.error(error);
+        }
+      });
+
+    return () => {
+      abort.abort();
+      inner?.unsubscribe();
+    };
+  });
+}
@@ -0,0 +1,228 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  OnInit,
+  OnDestroy,
+  inject,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subject, throwError } from 'rxjs';
+import { takeUntil, timeout, catchError } from 'rxjs/operators';
+import { NzAlertModule } from 'ng-zorro-antd/alert';
+import { AuthService } from '../../services/auth.service';
+import { API_CONFIG } from '../../config/api.config';
+import { normalizeApiError, toLoginError } from '../../utils/api-error';
+import { ChangePasswordFormComponent } from './components/change-password-form/change-password-form.component';
+import { ChangeEmailFormComponent } from './components/change-email-form/change-email-form.component';
+import { DeleteAccountFormComponent } from './components/delete-account-form/delete-account-form.component';
+import { TwoFactorSettingsComponent } from './components/two-factor-settings/two-factor-settings.component';
+import {
+  ChangeEmailFormValue,
+  ChangePasswordFormValue,
+  DeleteAccountFormValue,
+  LoginError,
+} from '../../../types';
+
+type AccountAction = 'password' | 'email' | 'delete';
+
+/**
+ * AccountSettingsComponent
+ *
+ * Lets a signed-in user change their password or email address, set up
+ * two-factor authentication, or delete their account. Credential changes and
+ * deletion re-authenticate with the current password; 2FA changes with a code.
+ * Deleting the account ends the session and lands on /goodbye. An email change
+ * only takes effect once the link sent to the new address is opened, which
+ * lands on /auth/callback and comes back here with `?emailChanged=true`.
+ */
+@Component({
+  selector: 'app-account-settings',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    NzAlertModule,
+    ChangePasswordFormComponent,
+    ChangeEmailFormComponent,
+    TwoFactorSettingsComponent,
+    DeleteAccountFormComponent,
+  ],
+  templateUrl: './account-settings.component.html',
+  styleUrl: './account-settings.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AccountSettingsComponent implements OnInit, OnDestroy {
+  private readonly authService = inject(AuthService);
+  private readonly apiConfig = inject(API_CONFIG);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly destroy$ = new Subject<void>();
+
+  private readonly passwordForm = viewChild(ChangePasswordFormComponent);
+  private readonly emailForm = viewChild(ChangeEmailFormComponent);
+
+  readonly email = this.authService.userEmail;
+
+  isChangingPassword = signal(false);
+  passwordError = signal<LoginError | null>(null);
+  passwordChanged = signal(false);
+
+  isChangingEmail = signal(false);
+  emailError = signal<LoginError | null>(null);
+  pendingEmail = signal<string | null>(null);
+  emailChanged = signal(false);
+
+  isDeletingAccount = signal(false);
+  deleteError = signal<LoginError | null>(null);
+
+  ngOnInit(): void {
+    this.emailChanged.set(
+      this.route.snapshot.queryParamMap.get('emailChanged') === 'true'
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onChangePassword(formValue: ChangePasswordFormValue): void {
+    // Prevent multiple submissions
+    if (this.isChangingPassword()) return;
+
+    this.isChangingPassword.set(true);
+    this.passwordError.set(null);
+    this.passwordChanged.set(false);
+
+    this.authService
+      .changePassword({
+        current_password: formValue.currentPassword,
+        new_password: formValue.newPassword,
+      })
+      .pipe(
+        timeout(this.apiConfig.timeoutMs),
+        takeUntil(this.destroy$),
+        catchError((error) => {
+          this.isChangingPassword.set(false);
+          this.passwordError.set(this.mapApiErrorToLoginError(error, 'password'));
+          return throwError(() => error);
+        })
+      )
+      .subscribe({
+        next: () => {
+          this.isChangingPassword.set(false);
+          this.passwordChanged.set(true);
+          this.passwordForm()?.reset();
+        },
+        error: () => {
+          // Error already handled in catchError
+        },
+      });
+  }
+
+  onChangeEmail(formValue: ChangeEmailFormValue): void {
+    // Prevent multiple submissions
+    if (this.isChangingEmail()) return;
+
+    this.isChangingEmail.set(true);
+    this.emailError.set(null);
+    this.emailChanged.set(false);
+
+    this.authService
+      .changeEmail({
+        new_email: formValue.newEmail,
+        password: formValue.password,
+        redirect_to: `${window.location.origin}/auth/callback`,
+      })
+      .pipe(
+        timeout(this.apiConfig.timeoutMs),
+        takeUntil(this.destroy$),
+        catchError((error) => {
+          this.isChangingEmail.set(false);
+          this.emailError.set(this.mapApiErrorToLoginError(error, 'email'));
+          return throwError(() => error);
+        })
+      )
+      .subscribe({
+        next: () => {
+          this.isChangingEmail.set(false);
+          // userEmail keeps the current address until the link is confirmed
+          this.pendingEmail.set(formValue.newEmail);
+          this.emailForm()?.reset();
+        },
+        error: () => {
+          // Error already handled in catchError
+        },
+      });
+  }
+
+  /**
+   * Delete the account; AuthService clears the session on success
+   */
+  onDeleteAccount(formValue: DeleteAccountFormValue): void {
+    // Prevent multiple submissions
+    if (this.isDeletingAccount()) return;
+
+    this.isDeletingAccount.set(true);
+    this.deleteError.set(null);
+
+    this.authService
+      .deleteAccount(formValue)
+      .pipe(
+        // Deleting all user data can take longer than a regular request
+        timeout(this.apiConfig.maxRequestTimeoutMs),
+        takeUntil(this.destroy$),
+        catchError((error) => {
+          this.isDeletingAccount.set(false);
+          this.deleteError.set(this.mapApiErrorToLoginError(error, 'delete'));
+          return throwError(() => error);
+        })
+      )
+      .subscribe({
+        next: () => {
+          this.isDeletingAccount.set(false);
+          this.router.navigate(['/goodbye'], { replaceUrl: true });
+        },
+        error: () => {
+          // Error already handled in catchError
+        },
+      });
+  }
+
+  private mapApiErrorToLoginError(error: unknown, action: AccountAction): LoginError {
+    const appError = normalizeApiError(error);
+
+    // Wrong current password (401)
+    if (appError.kind === 'unauthorized') {
+      return {
+        code: 'INVALID_CREDENTIALS',
+        message: 'Your current password is incorrect.',
+        details: { field: action === 'password' ? 'currentPassword' : 'password' },
+      };
+    }
+
+    // Address used by another account (409)
+    if (appError.kind === 'conflict' && action === 'email') {
+      return {
+        code: 'EMAIL_EXISTS',
+        message: 'This email address is already used by another account.',
+        details: { field: 'newEmail' },
+      };
+    }
+
+    // Weak password (422)
+    if (appError.kind === 'unprocessable' && action === 'password') {
+      return {
+        code: 'WEAK_PASSWORD',
+        message:
+          'Password does not meet strength requirements. Please choose a stronger password.',
+        details: { field: 'newPassword', fieldErrors: appError.fieldErrors },
+      };
+    }
+
+    return toLoginError(appError);
+  }
+}
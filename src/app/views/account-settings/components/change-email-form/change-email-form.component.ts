@@ -0,0 +1,125 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  output,
+} from '@angular/core';
+import { CommonModule, NgClass } from '@angular/common';
+import {
+  AbstractControl,
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  ValidatorFn,
+  Validators,
+} from '@angular/forms';
+import { NzAlertModule } from 'ng-zorro-antd/alert';
+import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { FormErrorAlertComponent } from '../../../login/components/form-error-alert/form-error-alert.component';
+import { ChangeEmailFormValue, LoginError } from '../../../../../types';
+
+/**
+ * ChangeEmailFormComponent
+ *
+ * Change email form for account settings.
+ * The current address stays active until the confirmation link sent to the
+ * new address is opened; while that is pending the form shows a notice.
+ */
+@Component({
+  selector: 'app-change-email-form',
+  standalone: true,
+  imports: [
+    CommonModule,
+    NgClass,
+    ReactiveFormsModule,
+    NzAlertModule,
+    NzSpinModule,
+    FormErrorAlertComponent,
+  ],
+  templateUrl: './change-email-form.component.html',
+  styleUrl: './change-email-form.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ChangeEmailFormComponent {
+  private readonly fb = inject(FormBuilder);
+
+  currentEmail = input<string | null>(null);
+  pendingEmail = input<string | null>(null);
+  isLoading = input(false);
+  error = input<LoginError | null>(null);
+
+  onSubmit = output<ChangeEmailFormValue>();
+  onErrorDismiss = output<void>();
+
+  formGroup: FormGroup = this.fb.group({
+    newEmail: [
+      '',
+      [Validators.required, Validators.email, this.differentEmailValidator()],
+    ],
+    password: ['', [Validators.required]],
+  });
+
+  /**
+   * Clear the form after the confirmation email was sent
+   */
+  reset(): void {
+    this.formGroup.reset();
+  }
+
+  private differentEmailValidator(): ValidatorFn {
+    return (control: AbstractControl): ValidationErrors | null => {
+      const current = this.currentEmail()?.toLowerCase();
+      if (!control.value || !current) return null;
+      return control.value.trim().toLowerCase() === current
+        ? { sameEmail: true }
+        : null;
+    };
+  }
+
+  submit(): void {
+    if (this.formGroup.invalid) {
+      this.formGroup.markAllAsTouched();
+      return;
+    }
+
+    // Prevent multiple submissions
+    if (this.isLoading()) {
+      return;
+    }
+
+    const { newEmail, password } = this.formGroup.value as ChangeEmailFormValue;
+    this.onSubmit.emit({ newEmail: newEmail.trim(), password });
+  }
+
+  dismissError(): void {
+    this.onErrorDismiss.emit();
+  }
+
+  getEmailErrorMessage(): string | null {
+    const control = this.formGroup.get('newEmail');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required')) {
+      return 'New email is required';
+    }
+    if (control.hasError('email')) {
+      return 'Please enter a valid email address';
+    }
+    if (control.hasError('sameEmail')) {
+      return 'This is already your email address';
+    }
+    return null;
+  }
+
+  getPasswordErrorMessage(): string | null {
+    const control = this.formGroup.get('password');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required')) {
+      return 'Password is required to change your email';
+    }
+    return null;
+  }
+}
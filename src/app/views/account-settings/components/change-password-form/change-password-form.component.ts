@@ -0,0 +1,180 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  output,
+  signal,
+  computed,
+} from '@angular/core';
+import { CommonModule, NgClass } from '@angular/common';
+import {
+  AbstractControl,
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators,
+} from '@angular/forms';
+import { NzIconModule } from 'ng-zorro-antd/icon';
+import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { FormErrorAlertComponent } from '../../../login/components/form-error-alert/form-error-alert.component';
+import { PasswordStrengthIndicatorComponent } from '../../../registration/components/password-strength-indicator/password-strength-indicator.component';
+import { PasswordStrengthAnalyzer } from '../../../../utils/password-strength';
+import { ChangePasswordFormValue, LoginError } from '../../../../../types';
+
+/**
+ * ChangePasswordFormComponent
+ *
+ * Change password form for account settings with:
+ * - Current password for re-authentication
+ * - New password with the strength indicator shared with registration
+ * - Weak, breached or unchanged passwords rejected before submit
+ */
+@Component({
+  selector: 'app-change-password-form',
+  standalone: true,
+  imports: [
+    CommonModule,
+    NgClass,
+    ReactiveFormsModule,
+    NzIconModule,
+    NzSpinModule,
+    FormErrorAlertComponent,
+    PasswordStrengthIndicatorComponent,
+  ],
+  templateUrl: './change-password-form.component.html',
+  styleUrl: './change-password-form.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ChangePasswordFormComponent {
+  private readonly fb = inject(FormBuilder);
+
+  email = input<string | null>(null);
+  isLoading = input(false);
+  error = input<LoginError | null>(null);
+  success = input(false);
+
+  onSubmit = output<ChangePasswordFormValue>();
+  onErrorDismiss = output<void>();
+
+  showPassword = signal(false);
+
+  // Error raised by the form itself, before anything is sent
+  private localError = signal<LoginError | null>(null);
+  displayedError = computed(() => this.error() ?? this.localError());
+
+  formGroup: FormGroup = this.fb.group(
+    {
+      currentPassword: ['', [Validators.required]],
+      newPassword: ['', [Validators.required, this.strengthValidator.bind(this)]],
+      confirmPassword: ['', [Validators.required]],
+    },
+    { validators: [this.passwordMatchValidator, this.passwordChangedValidator] }
+  );
+
+  /**
+   * Clear the form after the password was changed
+   */
+  reset(): void {
+    this.formGroup.reset();
+    this.showPassword.set(false);
+    this.localError.set(null);
+  }
+
+  /**
+   * Reject passwords PasswordStrengthAnalyzer rates as weak
+   * Breached passwords pass here and are reported as an error on submit
+   */
+  private strengthValidator(control: AbstractControl): ValidationErrors | null {
+    if (!control.value) return null;
+    const result = PasswordStrengthAnalyzer.analyze(control.value, { email: this.email() });
+    return !result.isBreached && result.level === 'weak' ? { weakPassword: true } : null;
+  }
+
+  private passwordMatchValidator(group: AbstractControl): ValidationErrors | null {
+    const newPassword = group.get('newPassword')?.value;
+    const confirmPassword = group.get('confirmPassword')?.value;
+    return newPassword === confirmPassword ? null : { passwordMismatch: true };
+  }
+
+  private passwordChangedValidator(group: AbstractControl): ValidationErrors | null {
+    const currentPassword = group.get('currentPassword')?.value;
+    const newPassword = group.get('newPassword')?.value;
+    return currentPassword && currentPassword === newPassword
+      ? { passwordUnchanged: true }
+      : null;
+  }
+
+  submit(): void {
+    if (this.formGroup.invalid) {
+      this.formGroup.markAllAsTouched();
+      return;
+    }
+
+    // Prevent multiple submissions
+    if (this.isLoading()) {
+      return;
+    }
+
+    // Compromised passwords are rejected without a round trip
+    if (PasswordStrengthAnalyzer.analyze(this.getNewPasswordValue()).isBreached) {
+      this.localError.set({
+        code: 'WEAK_PASSWORD',
+        message: 'This password appeared in a data breach. Please choose a different one.',
+      });
+      return;
+    }
+
+    this.localError.set(null);
+    this.onSubmit.emit(this.formGroup.value as ChangePasswordFormValue);
+  }
+
+  dismissError(): void {
+    this.localError.set(null);
+    this.onErrorDismiss.emit();
+  }
+
+  getNewPasswordValue(): string {
+    return this.formGroup.get('newPassword')?.value || '';
+  }
+
+  getCurrentPasswordErrorMessage(): string | null {
+    const control = this.formGroup.get('currentPassword');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required')) {
+      return 'Current password is required';
+    }
+    return null;
+  }
+
+  getNewPasswordErrorMessage(): string | null {
+    const control = this.formGroup.get('newPassword');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required')) {
+      return 'New password is required';
+    }
+    if (control.hasError('weakPassword')) {
+      return 'This password is too weak. Please choose a stronger one.';
+    }
+    if (this.formGroup.hasError('passwordUnchanged')) {
+      return 'New password must be different from your current password';
+    }
+    return null;
+  }
+
+  getConfirmPasswordErrorMessage(): string | null {
+    const control = this.formGroup.get('confirmPassword');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required')) {
+      return 'Confirm password is required';
+    }
+    if (this.formGroup.hasError('passwordMismatch')) {
+      return 'Passwords do not match';
+    }
+    return null;
+  }
+}
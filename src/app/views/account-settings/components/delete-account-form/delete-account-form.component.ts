@@ -0,0 +1,120 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  output,
+} from '@angular/core';
+import { CommonModule, NgClass } from '@angular/common';
+import {
+  AbstractControl,
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators,
+} from '@angular/forms';
+import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { FormErrorAlertComponent } from '../../../login/components/form-error-alert/form-error-alert.component';
+import {
+  AccountDataTable,
+  DeleteAccountFormValue,
+  LoginError,
+} from '../../../../../types';
+
+export const DELETE_ACCOUNT_CONFIRMATION = 'DELETE';
+
+// What the user loses, one entry per purged table
+const DELETED_DATA: { table: AccountDataTable; label: string }[] = [
+  { table: 'notes', label: 'All of your notes' },
+  { table: 'reports', label: 'Your weekly AI reports' },
+  { table: 'report_deliveries', label: 'Report delivery history' },
+  { table: 'report_feedback', label: 'Feedback you gave on reports' },
+  { table: 'analytics_events', label: 'Usage analytics linked to your account' },
+  { table: 'profiles', label: 'Your profile and timezone' },
+  { table: 'preferences', label: 'Your categories and report preferences' },
+];
+
+/**
+ * DeleteAccountFormComponent
+ *
+ * Danger zone of account settings. Lists the data that will be purged and
+ * requires the current password plus a typed confirmation phrase before
+ * emitting the deletion request.
+ */
+@Component({
+  selector: 'app-delete-account-form',
+  standalone: true,
+  imports: [
+    CommonModule,
+    NgClass,
+    ReactiveFormsModule,
+    NzSpinModule,
+    FormErrorAlertComponent,
+  ],
+  templateUrl: './delete-account-form.component.html',
+  styleUrl: './delete-account-form.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DeleteAccountFormComponent {
+  private readonly fb = inject(FormBuilder);
+
+  isLoading = input(false);
+  error = input<LoginError | null>(null);
+
+  onSubmit = output<DeleteAccountFormValue>();
+  onErrorDismiss = output<void>();
+
+  readonly confirmationPhrase = DELETE_ACCOUNT_CONFIRMATION;
+  readonly deletedData = DELETED_DATA;
+
+  formGroup: FormGroup = this.fb.group({
+    password: ['', [Validators.required]],
+    confirmation: ['', [Validators.required, this.confirmationValidator]],
+  });
+
+  private confirmationValidator(control: AbstractControl): ValidationErrors | null {
+    if (!control.value) return null;
+    return control.value === DELETE_ACCOUNT_CONFIRMATION
+      ? null
+      : { confirmationMismatch: true };
+  }
+
+  submit(): void {
+    if (this.formGroup.invalid) {
+      this.formGroup.markAllAsTouched();
+      return;
+    }
+
+    // Prevent multiple submissions
+    if (this.isLoading()) {
+      return;
+    }
+
+    this.onSubmit.emit(this.formGroup.value as DeleteAccountFormValue);
+  }
+
+  dismissError(): void {
+    this.onErrorDismiss.emit();
+  }
+
+  getPasswordErrorMessage(): string | null {
+    const control = this.formGroup.get('password');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required')) {
+      return 'Password is required to delete your account';
+    }
+    return null;
+  }
+
+  getConfirmationErrorMessage(): string | null {
+    const control = this.formGroup.get('confirmation');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required') || control.hasError('confirmationMismatch')) {
+      return `Type ${DELETE_ACCOUNT_CONFIRMATION} to confirm`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,238 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  OnInit,
+  OnDestroy,
+  inject,
+  signal,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  Validators,
+} from '@angular/forms';
+import { Observable, Subject, throwError } from 'rxjs';
+import { takeUntil, timeout, catchError } from 'rxjs/operators';
+import { NzAlertModule } from 'ng-zorro-antd/alert';
+import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { AuthService } from '../../../../services/auth.service';
+import { API_CONFIG } from '../../../../config/api.config';
+import { normalizeApiError, toLoginError } from '../../../../utils/api-error';
+import { FormErrorAlertComponent } from '../../../login/components/form-error-alert/form-error-alert.component';
+import { LoginError, MfaStatusDto, TotpEnrollmentDto } from '../../../../../types';
+import { TOTP_CODE_PATTERN, mfaCodeValidator, normalizeMfaCode } from '../../../../utils/mfa-code';
+
+type TwoFactorStep = 'loading' | 'disabled' | 'enrolling' | 'recovery-codes' | 'enabled' | 'disabling';
+
+/**
+ * TwoFactorSettingsComponent
+ *
+ * TOTP section of account settings:
+ * - Enrollment: scan the QR code (or enter the secret), confirm with a code,
+ *   then save the recovery codes, which are shown only once
+ * - When enabled: shows remaining recovery codes and lets the user turn 2FA
+ *   off with a current code or a recovery code
+ */
+@Component({
+  selector: 'app-two-factor-settings',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    NzAlertModule,
+    NzSpinModule,
+    FormErrorAlertComponent,
+  ],
+  templateUrl: './two-factor-settings.component.html',
+  styleUrl: './two-factor-settings.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class TwoFactorSettingsComponent implements OnInit, OnDestroy {
+  private readonly authService = inject(AuthService);
+  private readonly apiConfig = inject(API_CONFIG);
+  private readonly fb = inject(FormBuilder);
+  private readonly destroy$ = new Subject<void>();
+
+  step = signal<TwoFactorStep>('loading');
+  status = signal<MfaStatusDto | null>(null);
+  enrollment = signal<TotpEnrollmentDto | null>(null);
+  recoveryCodes = signal<string[]>([]);
+  isSaving = signal(false);
+  error = signal<LoginError | null>(null);
+
+  codeForm: FormGroup = this.fb.group({
+    code: ['', [Validators.required]],
+  });
+
+  ngOnInit(): void {
+    this.loadStatus();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onStartEnrollment(): void {
+    this.setCodeValidators(true);
+    this.run(this.authService.enrollTotp(), (enrollment) => {
+      this.enrollment.set(enrollment);
+      this.step.set('enrolling');
+    });
+  }
+
+  onVerifyEnrollment(): void {
+    const enrollment = this.enrollment();
+    if (!enrollment || !this.validateCode()) return;
+
+    this.run(
+      this.authService.verifyTotpEnrollment({
+        factor_id: enrollment.factor_id,
+        code: this.getCode(),
+      }),
+      ({ recovery_codes }) => {
+        this.enrollment.set(null);
+        this.recoveryCodes.set(recovery_codes);
+        this.step.set('recovery-codes');
+      }
+    );
+  }
+
+  /**
+   * Recovery codes are only shown once; continue after the user saved them
+   */
+  onRecoveryCodesSaved(): void {
+    this.recoveryCodes.set([]);
+    this.loadStatus();
+  }
+
+  onStartDisable(): void {
+    // Recovery codes are accepted as well, so only require a value
+    this.setCodeValidators(false);
+    this.error.set(null);
+    this.step.set('disabling');
+  }
+
+  onConfirmDisable(): void {
+    if (!this.validateCode()) return;
+
+    this.run(this.authService.disableTotp({ code: this.getCode() }), () =>
+      this.loadStatus()
+    );
+  }
+
+  onCancel(): void {
+    this.enrollment.set(null);
+    this.error.set(null);
+    this.step.set(this.status()?.totp_enabled ? 'enabled' : 'disabled');
+  }
+
+  onDownloadRecoveryCodes(): void {
+    const blob = new Blob([this.recoveryCodes().join('\n') + '\n'], {
+      type: 'text/plain',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'lifesync-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  getCodeError(): string | null {
+    const control = this.codeForm.get('code');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required')) {
+      return 'Code is required';
+    }
+    if (control.hasError('pattern')) {
+      return 'Enter the 6-digit code from your authenticator app';
+    }
+    return null;
+  }
+
+  private loadStatus(): void {
+    this.step.set('loading');
+    this.authService
+      .getMfaStatus()
+      .pipe(timeout(this.apiConfig.timeoutMs), takeUntil(this.destroy$))
+      .subscribe({
+        next: (status) => {
+          this.status.set(status);
+          this.step.set(status.totp_enabled ? 'enabled' : 'disabled');
+        },
+        error: (error) => {
+          this.error.set(this.mapApiErrorToLoginError(error));
+          this.step.set('disabled');
+        },
+      });
+  }
+
+  private run<T>(request$: Observable<T>, onSuccess: (result: T) => void): void {
+    // Prevent multiple submissions
+    if (this.isSaving()) return;
+
+    this.isSaving.set(true);
+    this.error.set(null);
+
+    request$
+      .pipe(
+        timeout(this.apiConfig.timeoutMs),
+        takeUntil(this.destroy$),
+        catchError((error) => {
+          this.isSaving.set(false);
+          this.error.set(this.mapApiErrorToLoginError(error));
+          return throwError(() => error);
+        })
+      )
+      .subscribe({
+        next: (result) => {
+          this.isSaving.set(false);
+          this.codeForm.reset();
+          onSuccess(result);
+        },
+        error: () => {
+          // Error already handled in catchError
+        },
+      });
+  }
+
+  private setCodeValidators(totpOnly: boolean): void {
+    const control = this.codeForm.get('code');
+    control?.setValidators(
+      totpOnly
+        ? [Validators.required, mfaCodeValidator(TOTP_CODE_PATTERN)]
+        : [Validators.required]
+    );
+    control?.reset('');
+  }
+
+  private validateCode(): boolean {
+    if (this.codeForm.invalid) {
+      this.codeForm.markAllAsTouched();
+      return false;
+    }
+    return true;
+  }
+
+  private getCode(): string {
+    return normalizeMfaCode(this.codeForm.get('code')?.value);
+  }
+
+  private mapApiErrorToLoginError(error: unknown): LoginError {
+    const appError = normalizeApiError(error);
+
+    // Wrong or expired code
+    if (appError.kind === 'validation' || appError.kind === 'unauthorized') {
+      return {
+        code: 'MFA_CODE_INVALID',
+        message: 'That code is not valid. Codes change every 30 seconds, try the current one.',
+      };
+    }
+
+    return toLoginError(appError);
+  }
+}
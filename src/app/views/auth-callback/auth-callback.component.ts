@@ -0,0 +1,181 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  OnInit,
+  OnDestroy,
+  inject,
+  signal,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Observable, Subject } from 'rxjs';
+import { takeUntil, timeout } from 'rxjs/operators';
+import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { AuthService } from '../../services/auth.service';
+import { API_CONFIG } from '../../config/api.config';
+import { normalizeApiError, toLoginError } from '../../utils/api-error';
+import { FormErrorAlertComponent } from '../login/components/form-error-alert/form-error-alert.component';
+import {
+  EmailVerificationType,
+  LoginError,
+  SignInSessionDto,
+} from '../../../types';
+
+const EMAIL_VERIFICATION_TYPES: EmailVerificationType[] = [
+  'signup',
+  'email',
+  'invite',
+  'magiclink',
+  'email_change',
+];
+
+/**
+ * AuthCallbackComponent
+ *
+ * Landing page for links from verification emails (/auth/callback).
+ * Supports both link styles Supabase sends:
+ * - `?token_hash=...&type=signup` query params, exchanged for a session via the API
+ * - `#access_token=...&refresh_token=...` session fragment, checked against /api/me
+ * Errors carried in the fragment (e.g. `error_code=otp_expired`) or returned by
+ * the API are shown as expired/invalid link messages.
+ * Recovery links are forwarded to /reset-password; confirmed email changes
+ * return to /account.
+ */
+@Component({
+  selector: 'app-auth-callback',
+  standalone: true,
+  imports: [CommonModule, RouterLink, NzSpinModule, FormErrorAlertComponent],
+  templateUrl: './auth-callback.component.html',
+  styleUrl: './auth-callback.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AuthCallbackComponent implements OnInit, OnDestroy {
+  private readonly authService = inject(AuthService);
+  private readonly apiConfig = inject(API_CONFIG);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroy$ = new Subject<void>();
+
+  error = signal<LoginError | null>(null);
+
+  ngOnInit(): void {
+    const query = this.route.snapshot.queryParamMap;
+    const fragment = new URLSearchParams(this.route.snapshot.fragment || '');
+
+    // Errors reported by the auth provider before reaching the app
+    const errorCode = fragment.get('error_code') || query.get('error_code');
+    if (errorCode || fragment.get('error') || query.get('error')) {
+      this.error.set(this.mapLinkErrorCode(errorCode));
+      return;
+    }
+
+    const type = query.get('type') || fragment.get('type');
+    const tokenHash = query.get('token_hash');
+
+    // Password recovery links belong to the reset flow
+    if (type === 'recovery' && tokenHash) {
+      this.router.navigate(['/reset-password'], {
+        queryParams: { token: tokenHash },
+        replaceUrl: true,
+      });
+      return;
+    }
+
+    let verification$: Observable<unknown> | null = null;
+
+    if (tokenHash && this.isEmailVerificationType(type)) {
+      verification$ = this.authService.verifyEmail({ token_hash: tokenHash, type });
+    } else {
+      const session = this.parseSessionFragment(fragment);
+      if (session) {
+        verification$ = this.authService.establishSession(session);
+      }
+    }
+
+    if (!verification$) {
+      this.error.set(this.mapLinkErrorCode(null));
+      return;
+    }
+
+    // Confirmed email changes return to account settings
+    const [path, queryParams] =
+      type === 'email_change'
+        ? ['/account', { emailChanged: true }]
+        : ['/dashboard', {}];
+
+    verification$.pipe(timeout(this.apiConfig.timeoutMs), takeUntil(this.destroy$)).subscribe({
+      // replaceUrl keeps the one-time tokens out of browser history
+      next: () => this.router.navigate([path], { queryParams, replaceUrl: true }),
+      error: (error) =>
+        this.error.set(this.mapApiErrorToLoginError(error)),
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  private isEmailVerificationType(
+    type: string | null
+  ): type is EmailVerificationType {
+    return EMAIL_VERIFICATION_TYPES.includes(type as EmailVerificationType);
+  }
+
+  /**
+   * Build a session from an implicit-flow fragment, if one is present
+   */
+  private parseSessionFragment(
+    fragment: URLSearchParams
+  ): SignInSessionDto | null {
+    const accessToken = fragment.get('access_token');
+    const refreshToken = fragment.get('refresh_token');
+    if (!accessToken || !refreshToken) {
+      return null;
+    }
+
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_in: Number(fragment.get('expires_in')) || 3600,
+      token_type: 'bearer',
+    };
+  }
+
+  private mapLinkErrorCode(errorCode: string | null): LoginError {
+    if (errorCode === 'otp_expired') {
+      return {
+        code: 'VERIFICATION_LINK_EXPIRED',
+        message:
+          'This verification link has expired. Sign in to request a new verification email.',
+        details: { action: 'sign-in' },
+      };
+    }
+
+    return {
+      code: 'VERIFICATION_LINK_INVALID',
+      message:
+        'This verification link is invalid or has already been used. Sign in to request a new one.',
+      details: { action: 'sign-in' },
+    };
+  }
+
+  private mapApiErrorToLoginError(error: unknown): LoginError {
+    const appError = normalizeApiError(error);
+
+    // Expired link (410 Gone, or API code on a 400/401)
+    if (appError.status === 410 || appError.apiCode === 'otp_expired') {
+      return this.mapLinkErrorCode('otp_expired');
+    }
+
+    // Invalid, used or tampered link
+    if (['validation', 'unauthorized', 'not_found'].includes(appError.kind)) {
+      return this.mapLinkErrorCode(appError.apiCode);
+    }
+
+    return toLoginError(appError, {
+      network:
+        'Network connection error. Please check your internet connection and open the link again.',
+    });
+  }
+}
@@ -5,7 +5,7 @@ import {
   inject,
   ChangeDetectionStrategy,
 } from '@angular/core';
-import { Router } from '@angular/router';
+import { Router, RouterLink } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import {
   Observable,
@@ -16,6 +16,7 @@ import {
 } from 'rxjs';
 import { takeUntil, map, switchMap } from 'rxjs/operators';
 import { DashboardService, ErrorState } from '../../services/dashboard.service';
+import { LoggerService } from '../../services/logger.service';
 import {
   DashboardDto,
   DashboardQuery,
@@ -36,7 +37,7 @@ import {
 @Component({
   selector: 'app-dashboard',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink],
   templateUrl: './dashboard.component.html',
   styleUrl: './dashboard.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -44,6 +45,7 @@ import {
 export class DashboardComponent implements OnInit, OnDestroy {
   private readonly dashboardService = inject(DashboardService);
   private readonly router = inject(Router);
+  private readonly logger = inject(LoggerService).scoped('DASHBOARD');
   private readonly destroy$ = new Subject<void>();
 
   // Observable streams from service
@@ -101,11 +103,11 @@ export class DashboardComponent implements OnInit, OnDestroy {
 
     this.dashboardService.fetchDashboard(defaultQuery).subscribe({
       next: (data) => {
-        console.log('Dashboard data loaded successfully', data);
+        this.logger.debug('Dashboard data loaded successfully', data);
         this.retryCount = 0;
       },
       error: (error: ErrorState) => {
-        console.error('Dashboard load error:', error);
+        this.logger.error('Dashboard load error', error);
         this.handleError(error);
       },
     });
@@ -119,7 +121,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
       this.retryCount++;
       this.loadDashboard();
     } else {
-      console.error('Max retries exceeded');
+      this.logger.error('Max retries exceeded');
     }
   }
 
@@ -136,18 +138,22 @@ export class DashboardComponent implements OnInit, OnDestroy {
         break;
       case 'validation':
         // 400 - Invalid parameters, show to user
-        console.warn('Validation error:', error.details);
+        this.logger.warn('Validation error', error.details);
         break;
       case 'network':
         // Network error, user can retry
-        console.warn('Network error:', error.message);
+        this.logger.warn('Network error', error.message);
         break;
       case 'server':
         // 5xx - Server error, user can retry
-        console.error('Server error:', error.message);
+        this.logger.error('Server error', error.message);
+        break;
+      case 'invalid_response':
+        // Malformed body, already logged with the bad field by ApiClient
+        this.logger.error('Invalid dashboard response', error.message);
         break;
       default:
-        console.error('Unknown error:', error);
+        this.logger.error('Unknown error', error);
     }
   }
 
@@ -182,7 +188,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
    */
   onCategoryClick(categoryId: UUID): void {
     if (!isValidUUID(categoryId)) {
-      console.error('Invalid category ID:', categoryId);
+      this.logger.error('Invalid category ID', categoryId);
       return;
     }
     this.router.navigate(['/categories', categoryId, 'notes']);
@@ -193,7 +199,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
    */
   onReportClick(reportId: UUID): void {
     if (!isValidUUID(reportId)) {
-      console.error('Invalid report ID:', reportId);
+      this.logger.error('Invalid report ID', reportId);
       return;
     }
     this.router.navigate(['/reports', reportId]);
@@ -211,7 +217,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
    */
   onLoadMoreReports(): void {
     // TODO: Implement pagination logic when ReportHistoryComponent is created
-    console.log('Load more reports');
+    this.logger.debug('Load more reports');
   }
 
   /**
@@ -219,7 +225,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
    */
   onFilterChange(filter: string): void {
     // TODO: Implement filter logic when ReportHistoryComponent is created
-    console.log('Filter changed:', filter);
+    this.logger.debug('Filter changed', filter);
   }
 
   /**
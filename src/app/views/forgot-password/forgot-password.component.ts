@@ -0,0 +1,141 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  OnDestroy,
+  inject,
+  signal,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import {
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  Validators,
+} from '@angular/forms';
+import { Subject, throwError } from 'rxjs';
+import { takeUntil, timeout, catchError } from 'rxjs/operators';
+import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { AuthService } from '../../services/auth.service';
+import { API_CONFIG } from '../../config/api.config';
+import { formatRetryAfter, toLoginError } from '../../utils/api-error';
+import { FormErrorAlertComponent } from '../login/components/form-error-alert/form-error-alert.component';
+import { ForgotPasswordRequest, LoginError } from '../../../types';
+
+/**
+ * ForgotPasswordComponent
+ *
+ * First step of the password reset flow.
+ * Collects the account email and asks the API to send a reset link.
+ * The confirmation is shown for any syntactically valid email so the page
+ * never reveals whether an address is registered.
+ */
+@Component({
+  selector: 'app-forgot-password',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    RouterLink,
+    NzSpinModule,
+    FormErrorAlertComponent,
+  ],
+  templateUrl: './forgot-password.component.html',
+  styleUrl: './forgot-password.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ForgotPasswordComponent implements OnDestroy {
+  private readonly authService = inject(AuthService);
+  private readonly apiConfig = inject(API_CONFIG);
+  private readonly fb = inject(FormBuilder);
+  private readonly destroy$ = new Subject<void>();
+
+  isLoading = signal(false);
+  error = signal<LoginError | null>(null);
+  sentToEmail = signal<string | null>(null);
+
+  form: FormGroup = this.fb.group({
+    email: ['', [Validators.required, Validators.email]],
+  });
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Request the reset email
+   */
+  onSubmit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    // Prevent multiple submissions
+    if (this.isLoading()) {
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    const request: ForgotPasswordRequest = {
+      email: this.form.get('email')?.value,
+      redirect_to: `${window.location.origin}/reset-password`,
+    };
+
+    this.authService
+      .requestPasswordReset(request)
+      .pipe(
+        timeout(this.apiConfig.timeoutMs),
+        takeUntil(this.destroy$),
+        catchError((error) => {
+          this.isLoading.set(false);
+          this.error.set(this.mapApiErrorToLoginError(error));
+          return throwError(() => error);
+        })
+      )
+      .subscribe({
+        next: () => {
+          this.isLoading.set(false);
+          this.sentToEmail.set(request.email);
+        },
+        error: () => {
+          // Error already handled in catchError
+        },
+      });
+  }
+
+  /**
+   * Return to the form to send the link to a different address
+   */
+  onTryAgain(): void {
+    this.sentToEmail.set(null);
+  }
+
+  onErrorDismiss(): void {
+    this.error.set(null);
+  }
+
+  getEmailError(): string | null {
+    const control = this.form.get('email');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required')) {
+      return 'Email is required';
+    }
+    if (control.hasError('email')) {
+      return 'Please enter a valid email address';
+    }
+    return null;
+  }
+
+  private mapApiErrorToLoginError(error: unknown): LoginError {
+    return toLoginError(error, {
+      validation: 'Please enter a valid email address.',
+      rate_limited: (e) =>
+        `Too many reset requests. Please try again in ${formatRetryAfter(e.retryAfter)}.`,
+    });
+  }
+}
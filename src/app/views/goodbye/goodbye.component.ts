@@ -0,0 +1,17 @@
+import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { RouterLink } from '@angular/router';
+
+/**
+ * GoodbyeComponent
+ *
+ * Public page shown after an account has been deleted.
+ */
+@Component({
+  selector: 'app-goodbye',
+  standalone: true,
+  imports: [RouterLink],
+  templateUrl: './goodbye.component.html',
+  styleUrl: './goodbye.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class GoodbyeComponent {}
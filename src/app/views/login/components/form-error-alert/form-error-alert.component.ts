@@ -14,7 +14,7 @@ import { LoginError } from '../../../../../types';
         [nzMessage]="getErrorTitle()"
         [nzDescription]="error()!.message"
         [nzShowIcon]="true"
-        [nzCloseable]="dismissible"
+        [nzCloseable]="dismissible()"
         (nzOnClose)="onDismiss.emit()">
       </nz-alert>
     }
@@ -43,10 +43,22 @@ export class FormErrorAlertComponent {
       case 'INVALID_CREDENTIALS':
       case 'UNVERIFIED_EMAIL':
       case 'SERVER_ERROR':
+      case 'RESET_TOKEN_INVALID':
+      case 'RESET_TOKEN_EXPIRED':
+      case 'RESET_TOKEN_USED':
+      case 'VERIFICATION_LINK_INVALID':
+      case 'VERIFICATION_LINK_EXPIRED':
+      case 'MFA_CODE_INVALID':
+      case 'UNAUTHORIZED':
+      case 'FORBIDDEN':
         return 'error';
       case 'RATE_LIMITED':
       case 'NETWORK_ERROR':
+      case 'NOT_FOUND':
+      case 'CONFLICT':
         return 'warning';
+      case 'MFA_REQUIRED':
+        return 'info';
       default:
         return 'info';
     }
@@ -68,6 +80,28 @@ export class FormErrorAlertComponent {
         return 'Connection Error';
       case 'SERVER_ERROR':
         return 'Server Error';
+      case 'RESET_TOKEN_INVALID':
+        return 'Invalid Reset Link';
+      case 'RESET_TOKEN_EXPIRED':
+        return 'Reset Link Expired';
+      case 'RESET_TOKEN_USED':
+        return 'Reset Link Already Used';
+      case 'VERIFICATION_LINK_INVALID':
+        return 'Invalid Verification Link';
+      case 'VERIFICATION_LINK_EXPIRED':
+        return 'Verification Link Expired';
+      case 'MFA_REQUIRED':
+        return 'Two-Factor Authentication Required';
+      case 'MFA_CODE_INVALID':
+        return 'Invalid Code';
+      case 'UNAUTHORIZED':
+        return 'Session Expired';
+      case 'FORBIDDEN':
+        return 'Access Denied';
+      case 'NOT_FOUND':
+        return 'Not Found';
+      case 'CONFLICT':
+        return 'Conflict';
       default:
         return 'Error';
     }
@@ -10,6 +10,7 @@ import {
   output,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
 import {
   ReactiveFormsModule,
   FormBuilder,
@@ -23,9 +24,11 @@ import { NzFormModule } from 'ng-zorro-antd/form';
 import { NzInputModule } from 'ng-zorro-antd/input';
 import { NzButtonModule } from 'ng-zorro-antd/button';
 import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { NzCheckboxModule } from 'ng-zorro-antd/checkbox';
 import { FormErrorAlertComponent } from '../form-error-alert/form-error-alert.component';
 import { VerifyEmailPromptComponent } from '../verify-email-prompt/verify-email-prompt.component';
-import { LoginError, SignInRequest } from '../../../../../types';
+import { LoginError, LoginFormValue, ResendVerificationStatus } from '../../../../../types';
+import { formatCountdown } from '../../../../utils/countdown';
 
 @Component({
   selector: 'app-login-form',
@@ -33,10 +36,12 @@ import { LoginError, SignInRequest } from '../../../../../types';
   imports: [
     CommonModule,
     ReactiveFormsModule,
+    RouterLink,
     NzFormModule,
     NzInputModule,
     NzButtonModule,
     NzSpinModule,
+    NzCheckboxModule,
     FormErrorAlertComponent,
     VerifyEmailPromptComponent,
   ],
@@ -49,11 +54,16 @@ export class LoginFormComponent implements OnInit {
 
   isLoading = input.required<boolean>();
   error = input< LoginError | null >();
+  resendStatus = input<ResendVerificationStatus | null>(null);
+  // Seconds until sign-in is allowed again (see LoginAttemptsService)
+  lockoutSeconds = input(0);
 
-  onSubmit = output<SignInRequest>();
+  onSubmit = output<LoginFormValue>();
   onErrorDismiss = output<void>();
   onResendVerification = output<string>();
 
+  protected readonly formatCountdown = formatCountdown;
+
 
 
   loginForm: FormGroup = this.buildForm();
@@ -79,6 +89,7 @@ export class LoginFormComponent implements OnInit {
         ],
       ],
       password: ['', [Validators.required, Validators.minLength(1)]],
+      rememberMe: [true],
     });
   }
 
@@ -121,7 +132,11 @@ export class LoginFormComponent implements OnInit {
       return;
     }
 
-    this.onSubmit.emit(this.loginForm.value as SignInRequest);
+    if (this.lockoutSeconds() > 0) {
+      return;
+    }
+
+    this.onSubmit.emit(this.loginForm.value as LoginFormValue);
   }
 
   handleErrorDismiss(): void {
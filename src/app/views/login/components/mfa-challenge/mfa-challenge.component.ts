@@ -0,0 +1,100 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  output,
+  signal,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  Validators,
+} from '@angular/forms';
+import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { FormErrorAlertComponent } from '../form-error-alert/form-error-alert.component';
+import { LoginError, MfaChallengeFormValue } from '../../../../../types';
+import {
+  RECOVERY_CODE_PATTERN,
+  TOTP_CODE_PATTERN,
+  mfaCodeValidator,
+  normalizeMfaCode,
+} from '../../../../utils/mfa-code';
+
+/**
+ * MfaChallengeComponent
+ *
+ * Second sign-in step for accounts with 2FA enabled.
+ * Asks for the 6-digit code from the authenticator app, with a switch to
+ * a single-use recovery code when the device is not at hand.
+ */
+@Component({
+  selector: 'app-mfa-challenge',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, NzSpinModule, FormErrorAlertComponent],
+  templateUrl: './mfa-challenge.component.html',
+  styleUrl: './mfa-challenge.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class MfaChallengeComponent {
+  private readonly fb = inject(FormBuilder);
+
+  email = input('');
+  isLoading = input.required<boolean>();
+  error = input<LoginError | null>(null);
+
+  onSubmit = output<MfaChallengeFormValue>();
+  onCancel = output<void>();
+  onErrorDismiss = output<void>();
+
+  method = signal<MfaChallengeFormValue['method']>('totp');
+
+  form: FormGroup = this.fb.group({
+    code: ['', [Validators.required, mfaCodeValidator(TOTP_CODE_PATTERN)]],
+  });
+
+  /**
+   * Switch between authenticator codes and recovery codes
+   */
+  toggleMethod(): void {
+    const method = this.method() === 'totp' ? 'recovery' : 'totp';
+    const control = this.form.get('code');
+
+    this.method.set(method);
+    control?.setValidators([
+      Validators.required,
+      mfaCodeValidator(method === 'totp' ? TOTP_CODE_PATTERN : RECOVERY_CODE_PATTERN),
+    ]);
+    control?.reset('');
+    this.onErrorDismiss.emit();
+  }
+
+  submit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    this.onSubmit.emit({
+      method: this.method(),
+      code: normalizeMfaCode(this.form.get('code')?.value),
+    });
+  }
+
+  getCodeError(): string | null {
+    const control = this.form.get('code');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required')) {
+      return 'Code is required';
+    }
+    if (control.hasError('pattern')) {
+      return this.method() === 'totp'
+        ? 'Enter the 6-digit code from your authenticator app'
+        : 'Enter one of your recovery codes, e.g. abcd-1234';
+    }
+    return null;
+  }
+}
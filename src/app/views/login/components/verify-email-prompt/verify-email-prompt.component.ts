@@ -8,6 +8,8 @@ import {
 import { CommonModule } from '@angular/common';
 import { NzAlertModule } from 'ng-zorro-antd/alert';
 import { NzButtonModule } from 'ng-zorro-antd/button';
+import { formatCountdown } from '../../../../utils/countdown';
+import { ResendVerificationStatus } from '../../../../../types';
 
 @Component({
   selector: 'app-verify-email-prompt',
@@ -27,9 +29,34 @@ import { NzButtonModule } from 'ng-zorro-antd/button';
         nzType="primary"
         nzBlock
         nzSize="large"
+        [disabled]="isResendDisabled()"
+        [nzLoading]="status?.state === 'sending'"
         (click)="onResend.emit(email)">
-        Resend Verification Email to {{ email }}
+        @if (status && status.cooldownSeconds > 0) {
+          Resend available in {{ formatCountdown(status.cooldownSeconds) }}
+        } @else {
+          Resend Verification Email to {{ email }}
+        }
       </button>
+
+      @if (status?.state === 'sent') {
+        <nz-alert
+          nzType="success"
+          nzMessage="Verification email sent"
+          [nzDescription]="'Check ' + email + ' for a new verification link.'"
+          [nzShowIcon]="true"
+          class="mt-4">
+        </nz-alert>
+      }
+      @if (status?.state === 'error' && status?.error) {
+        <nz-alert
+          nzType="error"
+          nzMessage="Could not resend email"
+          [nzDescription]="status!.error!.message"
+          [nzShowIcon]="true"
+          class="mt-4">
+        </nz-alert>
+      }
     </div>
   `,
   styles: [
@@ -47,11 +74,26 @@ import { NzButtonModule } from 'ng-zorro-antd/button';
       .mb-4 {
         margin-bottom: 1rem;
       }
+
+      .mt-4 {
+        margin-top: 1rem;
+      }
     `,
   ],
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class VerifyEmailPromptComponent {
   @Input() email: string = '';
+  @Input() status: ResendVerificationStatus | null = null;
   @Output() onResend = new EventEmitter<string>();
+
+  protected readonly formatCountdown = formatCountdown;
+
+  isResendDisabled(): boolean {
+    return (
+      !this.email ||
+      this.status?.state === 'sending' ||
+      (this.status?.cooldownSeconds ?? 0) > 0
+    );
+  }
 }
@@ -7,41 +7,60 @@ import {
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Router, ActivatedRoute, RouterLink } from '@angular/router';
-import { HttpErrorResponse } from '@angular/common/http';
 import { Subject } from 'rxjs';
 import { takeUntil, timeout, catchError } from 'rxjs/operators';
 import { throwError } from 'rxjs';
 import { LoginFormComponent } from './components/login-form/login-form.component';
+import { MfaChallengeComponent } from './components/mfa-challenge/mfa-challenge.component';
 import { AuthService } from '../../services/auth.service';
-import { LoginError, LoginFormValue, SignInRequest, SignInResponseDto } from '../../../types';
+import { API_CONFIG } from '../../config/api.config';
+import { ResendVerificationService } from '../../services/resend-verification.service';
+import { LoginAttemptsService } from '../../services/login-attempts.service';
+import { LoggerService } from '../../services/logger.service';
+import { normalizeApiError, toLoginError } from '../../utils/api-error';
+import {
+  LoginError,
+  LoginFormValue,
+  MfaChallengeFormValue,
+  MfaChallengeRequest,
+  SignInRequest,
+  SignInResponseDto,
+} from '../../../types';
+
+// Sign-in waiting for a second factor
+type PendingMfaChallenge = {
+  mfaToken: string;
+  email: string;
+  rememberMe: boolean;
+};
 
 
 @Component({
   selector: 'app-login',
   standalone: true,
-  imports: [CommonModule, LoginFormComponent, RouterLink],
+  imports: [CommonModule, LoginFormComponent, MfaChallengeComponent, RouterLink],
   templateUrl: './login.component.html',
   styleUrl: './login.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class LoginComponent implements OnInit, OnDestroy {
   private readonly authService = inject(AuthService);
+  private readonly apiConfig = inject(API_CONFIG);
   private readonly router = inject(Router);
   private readonly route = inject(ActivatedRoute);
+  protected readonly resendVerification = inject(ResendVerificationService);
+  protected readonly loginAttempts = inject(LoginAttemptsService);
+  private readonly logger = inject(LoggerService).scoped('LOGIN');
   private readonly destroy$ = new Subject<void>();
 
   isLoading: boolean = false;
   error: LoginError | null = null;
-  formValue: LoginFormValue = { email: '', password: '' };
+  formValue: LoginFormValue = { email: '', password: '', rememberMe: true };
+  mfaChallenge: PendingMfaChallenge | null = null;
   returnUrl: string = '/dashboard';
 
   ngOnInit(): void {
-    console.log('LoginComponent ngOnInit');
-    // If already authenticated, redirect to dashboard
-    if (this.authService.isAuthenticated()) {
-      this.router.navigate(['/dashboard']);
-      return;
-    }
+    // Signed-in users never get here, guestGuard redirects them
 
     // Extract return URL from query params
     this.returnUrl =
@@ -53,22 +72,29 @@ export class LoginComponent implements OnInit, OnDestroy {
     this.destroy$.complete();
   }
 
-  onSubmit(request: SignInRequest): void {
-    // Prevent multiple submissions
-    if (this.isLoading) return;
+  onSubmit(formValue: LoginFormValue): void {
+    // Prevent multiple submissions and attempts during a lockout
+    if (this.isLoading || this.loginAttempts.lockoutSeconds() > 0) return;
 
     this.isLoading = true;
     this.error = null;
-    this.formValue = request;
+    this.formValue = formValue;
+
+    const request: SignInRequest = {
+      email: formValue.email,
+      password: formValue.password,
+    };
 
     this.authService
-      .signIn(request)
+      .signIn(request, formValue.rememberMe)
       .pipe(
-        timeout(10000),
+        timeout(this.apiConfig.timeoutMs),
         takeUntil(this.destroy$),
         catchError((error) => {
           this.isLoading = false;
           this.error = this.mapApiErrorToLoginError(error);
+          this.trackFailedAttempt();
+          this.startMfaChallengeIfRequired(formValue);
           return throwError(() => error);
         })
       )
@@ -82,18 +108,88 @@ export class LoginComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Finish a 2FA sign-in with a TOTP or recovery code
+   */
+  onMfaSubmit(value: MfaChallengeFormValue): void {
+    const challenge = this.mfaChallenge;
+    if (!challenge || this.isLoading) return;
+
+    this.isLoading = true;
+    this.error = null;
+
+    const request: MfaChallengeRequest =
+      value.method === 'totp'
+        ? { mfa_token: challenge.mfaToken, code: value.code }
+        : { mfa_token: challenge.mfaToken, recovery_code: value.code };
+
+    this.authService
+      .verifyMfaChallenge(request, challenge.rememberMe)
+      .pipe(
+        timeout(this.apiConfig.timeoutMs),
+        takeUntil(this.destroy$),
+        catchError((error) => {
+          this.isLoading = false;
+          this.error = this.mapMfaErrorToLoginError(error);
+          this.trackFailedAttempt();
+          return throwError(() => error);
+        })
+      )
+      .subscribe({
+        next: (response) => {
+          this.mfaChallenge = null;
+          this.handleSignInSuccess(response);
+        },
+        error: () => {
+          // Error already handled in catchError
+        },
+      });
+  }
+
+  /**
+   * Leave the challenge and start over with email and password
+   */
+  onMfaCancel(): void {
+    this.mfaChallenge = null;
+    this.error = null;
+  }
+
   onErrorDismiss(): void {
     this.error = null;
   }
 
   onResendVerification(email: string): void {
-    // TODO: Implement resend verification email
-    console.log('Resend verification email to:', email);
+    this.resendVerification.resend(email);
+  }
+
+  /**
+   * Feed wrong passwords and server lockouts into the local lockout
+   */
+  private trackFailedAttempt(): void {
+    if (this.error?.code === 'INVALID_CREDENTIALS') {
+      this.loginAttempts.recordFailure();
+    }
+    if (this.error?.code === 'RATE_LIMITED' && this.error.details?.retryAfter) {
+      this.loginAttempts.lockFor(this.error.details.retryAfter);
+    }
+  }
+
+  private startMfaChallengeIfRequired(formValue: LoginFormValue): void {
+    const mfaToken = this.error?.details?.mfaToken;
+    if (this.error?.code !== 'MFA_REQUIRED' || !mfaToken) return;
+
+    this.error = null;
+    this.mfaChallenge = {
+      mfaToken,
+      email: formValue.email,
+      rememberMe: formValue.rememberMe,
+    };
   }
 
   private handleSignInSuccess(response: SignInResponseDto): void {
     this.isLoading = false;
     this.error = null;
+    this.loginAttempts.reset();
 
     // Check if email is verified
     if (!response.user.email_confirmed_at) {
@@ -108,59 +204,56 @@ export class LoginComponent implements OnInit, OnDestroy {
     this.router.navigate([this.returnUrl]);
   }
 
-  private mapApiErrorToLoginError(error: HttpErrorResponse): LoginError {
-    // Network error
-    if (error.status === 0) {
-      return {
-        code: 'NETWORK_ERROR',
-        message:
-          'Network connection error. Please check your internet connection.',
-      };
-    }
+  private mapApiErrorToLoginError(error: unknown): LoginError {
+    const appError = normalizeApiError(error);
 
-    // Validation error (400)
-    if (error.status === 400) {
-      const apiError = error.error?.error;
+    // Second factor required (401 mfa_required)
+    if (appError.kind === 'unauthorized' && appError.apiCode === 'mfa_required') {
       return {
-        code: 'VALIDATION_ERROR',
-        message: apiError?.message || 'Invalid input',
-        details: apiError?.details,
+        code: 'MFA_REQUIRED',
+        message: 'Enter the code from your authenticator app to continue.',
+        details: { mfaToken: appError.details['mfa_token'] as string | undefined },
       };
     }
 
     // Unauthorized (401)
-    if (error.status === 401) {
+    if (appError.kind === 'unauthorized') {
       return {
         code: 'INVALID_CREDENTIALS',
         message: 'Invalid email or password',
       };
     }
 
-    // Rate limited (429)
-    if (error.status === 429) {
-      const retryAfter = error.error?.error?.details?.retryAfter || 900;
+    if (appError.kind === 'server') {
+      this.logger.error('Server error during login', error);
+    }
+
+    return toLoginError(appError, {
+      validation: 'Invalid input',
+      rate_limited: 'Too many login attempts. Please wait until the countdown ends.',
+    });
+  }
+
+  private mapMfaErrorToLoginError(error: unknown): LoginError {
+    const appError = normalizeApiError(error);
+
+    // The pending sign-in expired, start over with email and password
+    if (appError.status === 410 || appError.apiCode === 'mfa_token_expired') {
+      this.mfaChallenge = null;
       return {
-        code: 'RATE_LIMITED',
-        message: `Too many login attempts. Please try again in ${Math.ceil(
-          retryAfter / 60
-        )} minutes.`,
-        details: { retryAfter },
+        code: 'INVALID_CREDENTIALS',
+        message: 'Your sign-in attempt expired. Please sign in again.',
       };
     }
 
-    // Server error (5xx)
-    if (error.status >= 500) {
-      console.error('Server error during login:', error);
+    // Wrong or already used code
+    if (appError.kind === 'validation' || appError.kind === 'unauthorized') {
       return {
-        code: 'SERVER_ERROR',
-        message: 'An unexpected error occurred. Please try again later.',
+        code: 'MFA_CODE_INVALID',
+        message: 'That code is not valid. Check your authenticator app or try a recovery code.',
       };
     }
 
-    // Unknown error
-    return {
-      code: 'SERVER_ERROR',
-      message: 'An unexpected error occurred. Please try again later.',
-    };
+    return this.mapApiErrorToLoginError(appError);
   }
 }
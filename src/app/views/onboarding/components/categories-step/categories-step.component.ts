@@ -0,0 +1,93 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  OnInit,
+  computed,
+  input,
+  output,
+  signal,
+} from '@angular/core';
+import { CommonModule, NgClass } from '@angular/common';
+import { NzButtonModule } from 'ng-zorro-antd/button';
+import { getCategoryColorMapping } from '../../../../models/dashboard.models';
+import { CategoryDto, UUID } from '../../../../../types';
+
+/**
+ * CategoriesStepComponent
+ *
+ * Second onboarding step: choose up to `maxSelected` active categories.
+ * Further categories are disabled once the limit is reached.
+ */
+@Component({
+  selector: 'app-categories-step',
+  standalone: true,
+  imports: [CommonModule, NgClass, NzButtonModule],
+  template: `
+    <h2 class="text-xl font-semibold text-gray-900 mb-2">What do you want to reflect on?</h2>
+    <p class="text-gray-600 text-sm mb-6">
+      Pick up to {{ maxSelected() }} areas of life to focus on. You can change them later.
+    </p>
+
+    <div class="grid grid-cols-2 gap-3">
+      @for (category of categories(); track category.id) {
+        <button
+          class="flex items-center gap-3 p-4 border rounded-lg text-left transition disabled:opacity-50 disabled:cursor-not-allowed"
+          type="button"
+          [attr.aria-pressed]="isSelected(category.id)"
+          [disabled]="!isSelected(category.id) && limitReached()"
+          [ngClass]="isSelected(category.id) ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-300'"
+          (click)="toggle(category.id)">
+          <span class="w-3 h-3 rounded-full flex-shrink-0" [ngClass]="getColorClass(category.name)"></span>
+          <span class="font-medium text-gray-900">{{ category.name }}</span>
+        </button>
+      }
+    </div>
+
+    <p class="text-sm text-gray-500 mt-4">{{ selected().length }} of {{ maxSelected() }} selected</p>
+
+    <div class="flex gap-3 mt-8">
+      <button class="flex-1" nz-button nzSize="large" (click)="back.emit()">Back</button>
+      <button
+        class="flex-1"
+        nz-button
+        nzSize="large"
+        nzType="primary"
+        [disabled]="selected().length === 0"
+        (click)="submitted.emit(selected())">
+        Continue
+      </button>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CategoriesStepComponent implements OnInit {
+  categories = input<CategoryDto[]>([]);
+  initialSelection = input<UUID[]>([]);
+  maxSelected = input(3);
+
+  back = output<void>();
+  submitted = output<UUID[]>();
+
+  selected = signal<UUID[]>([]);
+  limitReached = computed(() => this.selected().length >= this.maxSelected());
+
+  ngOnInit(): void {
+    this.selected.set(this.initialSelection().slice(0, this.maxSelected()));
+  }
+
+  isSelected(categoryId: UUID): boolean {
+    return this.selected().includes(categoryId);
+  }
+
+  toggle(categoryId: UUID): void {
+    if (this.isSelected(categoryId)) {
+      this.selected.update((ids) => ids.filter((id) => id !== categoryId));
+    } else if (!this.limitReached()) {
+      this.selected.update((ids) => [...ids, categoryId]);
+    }
+  }
+
+  getColorClass(categoryName: string): string {
+    return getCategoryColorMapping(categoryName).color;
+  }
+}
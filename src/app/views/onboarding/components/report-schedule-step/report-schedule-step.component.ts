@@ -0,0 +1,151 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  output,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  AbstractControl,
+  FormBuilder,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators,
+} from '@angular/forms';
+import { NzSelectModule } from 'ng-zorro-antd/select';
+import { NzCheckboxModule } from 'ng-zorro-antd/checkbox';
+import { NzButtonModule } from 'ng-zorro-antd/button';
+import { DeliveryChannel, ReportScheduleValue } from '../../../../../types';
+
+/**
+ * ReportScheduleStepComponent
+ *
+ * Last onboarding step: choose the day and hour of the weekly report
+ * (in the profile timezone) and at least one delivery channel.
+ */
+@Component({
+  selector: 'app-report-schedule-step',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    NzSelectModule,
+    NzCheckboxModule,
+    NzButtonModule,
+  ],
+  template: `
+    <h2 class="text-xl font-semibold text-gray-900 mb-2">When should we send your weekly report?</h2>
+    <p class="text-gray-600 text-sm mb-6">Your AI summary is generated once a week at the time you choose.</p>
+
+    <form [formGroup]="form" (ngSubmit)="submit()">
+      <div class="grid grid-cols-2 gap-4">
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-2" for="onboarding-report-dow">Day</label>
+          <nz-select class="w-full" formControlName="report_dow" id="onboarding-report-dow">
+            @for (day of days; track day.value) {
+              <nz-option [nzLabel]="day.label" [nzValue]="day.value"></nz-option>
+            }
+          </nz-select>
+        </div>
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-2" for="onboarding-report-hour">Hour</label>
+          <nz-select class="w-full" formControlName="report_hour" id="onboarding-report-hour">
+            @for (hour of hours; track hour.value) {
+              <nz-option [nzLabel]="hour.label" [nzValue]="hour.value"></nz-option>
+            }
+          </nz-select>
+        </div>
+      </div>
+
+      <fieldset class="mt-6" formGroupName="channels">
+        <legend class="block text-sm font-medium text-gray-700 mb-2">Deliver to</legend>
+        <label
+          class="block mb-2"
+          for="onboarding-channel-in-app"
+          formControlName="in_app"
+          nz-checkbox
+          nzId="onboarding-channel-in-app">
+          In the app
+        </label>
+        <label
+          class="block"
+          for="onboarding-channel-email"
+          formControlName="email"
+          nz-checkbox
+          nzId="onboarding-channel-email">
+          By email
+        </label>
+      </fieldset>
+      @if (form.get('channels')?.hasError('noChannel')) {
+        <p class="text-red-500 text-sm mt-1">Choose at least one delivery channel</p>
+      }
+
+      <div class="flex gap-3 mt-8">
+        <button class="flex-1" nz-button nzSize="large" type="button" (click)="back.emit()">Back</button>
+        <button
+          class="flex-1"
+          nz-button
+          nzSize="large"
+          nzType="primary"
+          type="submit"
+          [disabled]="form.invalid"
+          [nzLoading]="isSaving()">
+          Finish
+        </button>
+      </div>
+    </form>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ReportScheduleStepComponent {
+  private readonly fb = inject(FormBuilder);
+
+  isSaving = input(false);
+
+  back = output<void>();
+  submitted = output<ReportScheduleValue>();
+
+  readonly days = [
+    'Sunday',
+    'Monday',
+    'Tuesday',
+    'Wednesday',
+    'Thursday',
+    'Friday',
+    'Saturday',
+  ].map((label, value) => ({ label, value }));
+
+  readonly hours = Array.from({ length: 24 }, (_, value) => ({
+    label: `${value.toString().padStart(2, '0')}:00`,
+    value,
+  }));
+
+  form = this.fb.nonNullable.group({
+    report_dow: [0, [Validators.required, Validators.min(0), Validators.max(6)]],
+    report_hour: [9, [Validators.required, Validators.min(0), Validators.max(23)]],
+    channels: this.fb.nonNullable.group(
+      { in_app: true, email: false },
+      { validators: this.atLeastOneChannelValidator }
+    ),
+  });
+
+  submit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const { report_dow, report_hour, channels } = this.form.getRawValue();
+    const preferred_delivery_channels = (
+      Object.keys(channels) as DeliveryChannel[]
+    ).filter((channel) => channels[channel]);
+
+    this.submitted.emit({ report_dow, report_hour, preferred_delivery_channels });
+  }
+
+  private atLeastOneChannelValidator(group: AbstractControl): ValidationErrors | null {
+    const { in_app, email } = group.value;
+    return in_app || email ? null : { noChannel: true };
+  }
+}
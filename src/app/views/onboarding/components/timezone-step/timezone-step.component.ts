@@ -0,0 +1,104 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  OnInit,
+  input,
+  output,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  AbstractControl,
+  FormControl,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators,
+} from '@angular/forms';
+import { NzSelectModule } from 'ng-zorro-antd/select';
+import { NzButtonModule } from 'ng-zorro-antd/button';
+import { isValidTimezone } from '../../../../models/dashboard.models';
+
+/**
+ * TimezoneStepComponent
+ *
+ * First onboarding step: pick the IANA timezone used for daily note limits,
+ * streaks and the weekly report schedule. Defaults to the browser timezone.
+ */
+@Component({
+  selector: 'app-timezone-step',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, NzSelectModule, NzButtonModule],
+  template: `
+    <h2 class="text-xl font-semibold text-gray-900 mb-2">Where are you?</h2>
+    <p class="text-gray-600 text-sm mb-6">
+      Your timezone decides when a day ends for your notes and when your weekly report arrives.
+    </p>
+
+    <label class="block text-sm font-medium text-gray-700 mb-2" for="onboarding-timezone">
+      Timezone <span class="text-red-500">*</span>
+    </label>
+    <nz-select
+      class="w-full"
+      id="onboarding-timezone"
+      nzPlaceHolder="Select your timezone"
+      nzShowSearch
+      [formControl]="timezoneControl">
+      @for (timezone of timezones; track timezone) {
+        <nz-option [nzLabel]="timezone" [nzValue]="timezone"></nz-option>
+      }
+    </nz-select>
+    @if (timezoneControl.touched && timezoneControl.invalid) {
+      <p class="text-red-500 text-sm mt-1">Please select a valid timezone</p>
+    }
+
+    <button
+      class="mt-8"
+      nz-button
+      nzBlock
+      nzSize="large"
+      nzType="primary"
+      [disabled]="timezoneControl.invalid"
+      [nzLoading]="isSaving()"
+      (click)="submit()">
+      Continue
+    </button>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class TimezoneStepComponent implements OnInit {
+  initialTimezone = input('UTC');
+  isSaving = input(false);
+
+  submitted = output<string>();
+
+  readonly timezones: string[] = this.getSupportedTimezones();
+
+  timezoneControl = new FormControl<string>('', {
+    nonNullable: true,
+    validators: [Validators.required, this.timezoneValidator],
+  });
+
+  ngOnInit(): void {
+    this.timezoneControl.setValue(this.initialTimezone());
+  }
+
+  submit(): void {
+    if (this.timezoneControl.invalid) {
+      this.timezoneControl.markAsTouched();
+      return;
+    }
+    this.submitted.emit(this.timezoneControl.value);
+  }
+
+  private timezoneValidator(control: AbstractControl): ValidationErrors | null {
+    if (!control.value) return null;
+    return isValidTimezone(control.value) ? null : { invalidTimezone: true };
+  }
+
+  private getSupportedTimezones(): string[] {
+    try {
+      return Intl.supportedValuesOf('timeZone');
+    } catch {
+      return ['UTC'];
+    }
+  }
+}
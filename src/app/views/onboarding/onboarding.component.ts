@@ -0,0 +1,206 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  OnInit,
+  OnDestroy,
+  inject,
+  signal,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { Observable, Subject, forkJoin, throwError } from 'rxjs';
+import { catchError, switchMap, takeUntil, timeout } from 'rxjs/operators';
+import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { NzStepsModule } from 'ng-zorro-antd/steps';
+import { AuthService } from '../../services/auth.service';
+import { API_CONFIG } from '../../config/api.config';
+import { OnboardingService } from '../../services/onboarding.service';
+import { toLoginError } from '../../utils/api-error';
+import { FormErrorAlertComponent } from '../login/components/form-error-alert/form-error-alert.component';
+import { TimezoneStepComponent } from './components/timezone-step/timezone-step.component';
+import { CategoriesStepComponent } from './components/categories-step/categories-step.component';
+import { ReportScheduleStepComponent } from './components/report-schedule-step/report-schedule-step.component';
+import {
+  CategoryDto,
+  LoginError,
+  PreferencesDto,
+  ReportScheduleValue,
+  UUID,
+} from '../../../types';
+
+type OnboardingStep = 'timezone' | 'categories' | 'schedule';
+
+const STEPS: OnboardingStep[] = ['timezone', 'categories', 'schedule'];
+
+/**
+ * OnboardingComponent
+ *
+ * Wizard shown after email verification to users without a profile or
+ * preferences (see onboardingCompleteGuard). Saves the timezone first, then
+ * the chosen categories and report schedule, and continues to the dashboard.
+ */
+@Component({
+  selector: 'app-onboarding',
+  standalone: true,
+  imports: [
+    CommonModule,
+    NzSpinModule,
+    NzStepsModule,
+    FormErrorAlertComponent,
+    TimezoneStepComponent,
+    CategoriesStepComponent,
+    ReportScheduleStepComponent,
+  ],
+  templateUrl: './onboarding.component.html',
+  styleUrl: './onboarding.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class OnboardingComponent implements OnInit, OnDestroy {
+  private readonly authService = inject(AuthService);
+  private readonly apiConfig = inject(API_CONFIG);
+  private readonly onboardingService = inject(OnboardingService);
+  private readonly router = inject(Router);
+  private readonly destroy$ = new Subject<void>();
+
+  readonly maxActiveCategories = this.onboardingService.MAX_ACTIVE_CATEGORIES;
+  readonly browserTimezone = this.getBrowserTimezone();
+
+  currentStep = signal<OnboardingStep>('timezone');
+  categories = signal<CategoryDto[]>([]);
+  selectedCategories = signal<UUID[]>([]);
+  isLoading = signal(true);
+  isSaving = signal(false);
+  error = signal<LoginError | null>(null);
+
+  private existingPreferences: PreferencesDto | null = null;
+
+  ngOnInit(): void {
+    forkJoin({
+      me: this.authService.loadMe(),
+      categories: this.onboardingService.getActiveCategories(),
+      preferences: this.onboardingService.getPreferences(),
+    })
+      .pipe(
+        timeout(this.apiConfig.timeoutMs),
+        takeUntil(this.destroy$),
+        catchError((error) => {
+          this.isLoading.set(false);
+          this.error.set(this.mapApiErrorToLoginError(error));
+          return throwError(() => error);
+        })
+      )
+      .subscribe({
+        next: ({ me, categories, preferences }) => {
+          this.isLoading.set(false);
+          this.categories.set(categories);
+          this.existingPreferences = preferences;
+          this.selectedCategories.set(preferences?.active_categories ?? []);
+
+          // Resume where the user left off
+          if (me.hasProfile) {
+            this.currentStep.set('categories');
+          }
+        },
+        error: () => {
+          // Error already handled in catchError
+        },
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  getStepIndex(): number {
+    return STEPS.indexOf(this.currentStep());
+  }
+
+  /**
+   * Save the profile timezone and move on to categories
+   */
+  onTimezoneSubmitted(timezone: string): void {
+    this.save(this.onboardingService.updateProfile({ timezone }), () =>
+      this.currentStep.set('categories')
+    );
+  }
+
+  onCategoriesSubmitted(categoryIds: UUID[]): void {
+    this.selectedCategories.set(categoryIds);
+    this.currentStep.set('schedule');
+  }
+
+  /**
+   * Save preferences, refresh /api/me so the guards see the completed
+   * onboarding, then continue to the dashboard
+   */
+  onScheduleSubmitted(schedule: ReportScheduleValue): void {
+    const request$ = this.onboardingService
+      .updatePreferences({
+        ...schedule,
+        active_categories: this.selectedCategories(),
+        email_unsubscribed_at: null,
+        max_daily_notes:
+          this.existingPreferences?.max_daily_notes ??
+          this.onboardingService.DEFAULT_MAX_DAILY_NOTES,
+      })
+      .pipe(switchMap(() => this.authService.loadMe(true)));
+
+    this.save(request$, () => this.router.navigate(['/dashboard']));
+  }
+
+  onBack(step: OnboardingStep): void {
+    this.error.set(null);
+    this.currentStep.set(step);
+  }
+
+  onErrorDismiss(): void {
+    this.error.set(null);
+  }
+
+  private save(request$: Observable<unknown>, onSuccess: () => void): void {
+    // Prevent multiple submissions
+    if (this.isSaving()) {
+      return;
+    }
+
+    this.isSaving.set(true);
+    this.error.set(null);
+
+    request$
+      .pipe(
+        timeout(this.apiConfig.timeoutMs),
+        takeUntil(this.destroy$),
+        catchError((error) => {
+          this.isSaving.set(false);
+          this.error.set(this.mapApiErrorToLoginError(error));
+          return throwError(() => error);
+        })
+      )
+      .subscribe({
+        next: () => {
+          this.isSaving.set(false);
+          onSuccess();
+        },
+        error: () => {
+          // Error already handled in catchError
+        },
+      });
+  }
+
+  private getBrowserTimezone(): string {
+    try {
+      return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+      return 'UTC';
+    }
+  }
+
+  private mapApiErrorToLoginError(error: unknown): LoginError {
+    return toLoginError(error, {
+      validation: 'Please check your selections and try again.',
+      server: 'We could not save your settings. Please try again later.',
+      unknown: 'We could not save your settings. Please try again later.',
+    });
+  }
+}
@@ -9,7 +9,8 @@ import { PasswordStrengthResult } from '../../../../../types';
  *
  * Displays visual feedback about password strength including:
  * - Color-coded strength bar (weak/fair/good/strong)
- * - Strength level text
+ * - Strength level text and estimated crack time
+ * - Warning when the password appears in a known data breach
  * - Criteria checklist with visual indicators
  * - Actionable feedback for unmet criteria
  *
@@ -26,6 +27,7 @@ import { PasswordStrengthResult } from '../../../../../types';
 export class PasswordStrengthIndicatorComponent {
   // Inputs using modern Angular 19 input() function
   password = input('');
+  email = input<string | null>(null);
   showDetails = input(true);
   minLength = input(8);
 
@@ -35,7 +37,7 @@ export class PasswordStrengthIndicatorComponent {
    */
   get strengthResult(): PasswordStrengthResult | null {
     const pwd = this.password();
-    return pwd ? PasswordStrengthAnalyzer.analyze(pwd) : null;
+    return pwd ? PasswordStrengthAnalyzer.analyze(pwd, { email: this.email() }) : null;
   }
 
   /**
@@ -36,6 +36,7 @@ import { PasswordStrengthAnalyzer } from '../../../../utils/password-strength';
  * - Reactive form with email, password, and confirm password fields
  * - Real-time validation with visual feedback
  * - Password strength indicator
+ * - Breached-password check before submission
  * - Error display and management
  * - Loading state during submission
  * - Navigation link to login page
@@ -79,6 +80,10 @@ export class RegistrationFormComponent implements OnInit {
   showPassword = signal(false);
   showConfirmPassword = signal(false);
 
+  // Error raised by the form itself, before anything is sent
+  private localError = signal<LoginError | null>(null);
+  displayedError = computed(() => this.error() ?? this.localError());
+
   // Form group (created in ngOnInit)
   formGroup!: FormGroup;
 
@@ -173,6 +178,17 @@ export class RegistrationFormComponent implements OnInit {
       password: this.formGroup.get('password')?.value,
     };
 
+    // Compromised passwords are rejected without a round trip
+    if (PasswordStrengthAnalyzer.analyze(request.password).isBreached) {
+      this.localError.set({
+        code: 'WEAK_PASSWORD',
+        message: 'This password appeared in a data breach. Please choose a different one.',
+      });
+      return;
+    }
+
+    this.localError.set(null);
+
     this.onSubmit.emit(request);
   }
 
@@ -180,6 +196,7 @@ export class RegistrationFormComponent implements OnInit {
    * Dismiss error message
    */
   dismissError(): void {
+    this.localError.set(null);
     this.onErrorDismiss.emit();
   }
 
@@ -226,6 +243,13 @@ export class RegistrationFormComponent implements OnInit {
     return '';
   }
 
+  /**
+   * Server-side message for a field from the last failed submission
+   */
+  getServerFieldError(field: keyof SignUpRequest): string | null {
+    return this.displayedError()?.details?.fieldErrors?.[field] ?? null;
+  }
+
   /**
    * Check if password field has error
    */
@@ -2,14 +2,16 @@ import { Component, ChangeDetectionStrategy, input, output } from '@angular/core
 import { CommonModule } from '@angular/common';
 import { NzIconModule } from 'ng-zorro-antd/icon';
 import { NzButtonModule } from 'ng-zorro-antd/button';
-import { SignInUserDto } from '../../../../../types';
+import { NzAlertModule } from 'ng-zorro-antd/alert';
+import { formatCountdown } from '../../../../utils/countdown';
+import { ResendVerificationStatus, SignInUserDto } from '../../../../../types';
 
 /**
  * SuccessMessageComponent
  *
  * Displays a success message after successful user registration.
  * Shows the registered email, verification instructions, and provides:
- * - Link to resend verification email
+ * - Link to resend verification email, with cooldown and inline result
  * - Navigation button to dashboard
  *
  * Purely presentational component emitting user actions.
@@ -17,7 +19,7 @@ import { SignInUserDto } from '../../../../../types';
 @Component({
   selector: 'app-success-message',
   standalone: true,
-  imports: [CommonModule, NzIconModule, NzButtonModule],
+  imports: [CommonModule, NzIconModule, NzButtonModule, NzAlertModule],
   templateUrl: './success-message.component.html',
   styleUrl: './success-message.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -27,11 +29,14 @@ export class SuccessMessageComponent {
   email = input('');
   user = input<SignInUserDto | undefined>();
   autoNavigateSeconds = input<number | undefined>();
+  resendStatus = input<ResendVerificationStatus | null>(null);
 
   // Outputs using modern Angular 19 output() function
   navigateToDashboard = output<void>();
   resendVerificationEmail = output<string>();
 
+  protected readonly formatCountdown = formatCountdown;
+
   /**
    * Handle dashboard navigation
    */
@@ -44,8 +49,16 @@ export class SuccessMessageComponent {
    */
   onResendVerification(): void {
     const emailToResend = this.email();
-    if (emailToResend) {
+    if (emailToResend && !this.isResendDisabled()) {
       this.resendVerificationEmail.emit(emailToResend);
     }
   }
+
+  /**
+   * Resend is blocked while a request is in flight or the cooldown is running
+   */
+  isResendDisabled(): boolean {
+    const status = this.resendStatus();
+    return !!status && (status.state === 'sending' || status.cooldownSeconds > 0);
+  }
 }
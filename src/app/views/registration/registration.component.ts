@@ -8,11 +8,14 @@ import {
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Router, RouterLink } from '@angular/router';
-import { HttpErrorResponse } from '@angular/common/http';
 import { Subject } from 'rxjs';
 import { takeUntil, timeout, catchError } from 'rxjs/operators';
 import { throwError } from 'rxjs';
 import { AuthService } from '../../services/auth.service';
+import { API_CONFIG } from '../../config/api.config';
+import { ResendVerificationService } from '../../services/resend-verification.service';
+import { LoggerService } from '../../services/logger.service';
+import { formatRetryAfter, normalizeApiError, toLoginError } from '../../utils/api-error';
 import { RegistrationFormComponent } from './components/registration-form/registration-form.component';
 import { SuccessMessageComponent } from './components/success-message/success-message.component';
 import { LoginError, SignInUserDto, SignUpRequest, SignInResponseDto } from '../../../types';
@@ -44,7 +47,10 @@ import { LoginError, SignInUserDto, SignUpRequest, SignInResponseDto } from '../
 })
 export class RegistrationComponent implements OnInit, OnDestroy {
   private readonly authService = inject(AuthService);
+  private readonly apiConfig = inject(API_CONFIG);
   private readonly router = inject(Router);
+  protected readonly resendVerification = inject(ResendVerificationService);
+  private readonly logger = inject(LoggerService).scoped('REGISTRATION');
   private readonly destroy$ = new Subject<void>();
 
   // State signals using modern Angular 19 patterns
@@ -55,13 +61,8 @@ export class RegistrationComponent implements OnInit, OnDestroy {
   user = signal<SignInUserDto | null>(null);
 
   ngOnInit(): void {
-    // If already authenticated, redirect to dashboard
-    if (this.authService.isAuthenticated()) {
-      this.router.navigate(['/dashboard']);
-      return;
-    }
-
-    console.log('RegistrationComponent initialized');
+    // Signed-in users never get here, guestGuard redirects them
+    this.logger.debug('RegistrationComponent initialized');
   }
 
   ngOnDestroy(): void {
@@ -82,17 +83,17 @@ export class RegistrationComponent implements OnInit, OnDestroy {
     this.isLoading.set(true);
     this.error.set(null);
 
-    console.log('Submitting registration for:', request.email);
+    this.logger.debug('Submitting registration');
 
     this.authService
       .signUp(request)
       .pipe(
-        timeout(10000), // 10 second timeout
+        timeout(this.apiConfig.timeoutMs),
         takeUntil(this.destroy$),
         catchError((error) => {
           this.isLoading.set(false);
           this.error.set(this.mapApiErrorToRegistrationError(error));
-          console.error('Sign-up error:', error);
+          this.logger.error('Sign-up error', error);
           return throwError(() => error);
         })
       )
@@ -115,37 +116,20 @@ export class RegistrationComponent implements OnInit, OnDestroy {
     this.isSuccess.set(true);
     this.error.set(null);
 
-    console.log('Registration successful for:', response.user.email);
+    this.logger.info('Registration successful');
   }
 
   /**
    * Map HTTP error responses to user-friendly LoginError messages
    * Handles all possible error scenarios from the sign-up API
-   * @param error - HttpErrorResponse from API
+   * @param error - HttpErrorResponse or timeout from the sign-up call
    * @returns LoginError with appropriate code and message
    */
-  private mapApiErrorToRegistrationError(error: HttpErrorResponse): LoginError {
-    // Network error (status 0) - no connection
-    if (error.status === 0) {
-      return {
-        code: 'NETWORK_ERROR',
-        message:
-          'Network connection error. Please check your internet connection.',
-      };
-    }
-
-    // Validation error (400) - invalid input format
-    if (error.status === 400) {
-      const apiError = error.error?.error;
-      return {
-        code: 'VALIDATION_ERROR',
-        message: apiError?.message || 'Invalid input. Please check your entries.',
-        details: apiError?.details,
-      };
-    }
+  private mapApiErrorToRegistrationError(error: unknown): LoginError {
+    const appError = normalizeApiError(error);
 
     // Email already registered (409) - account exists
-    if (error.status === 409) {
+    if (appError.kind === 'conflict') {
       return {
         code: 'EMAIL_EXISTS',
         message:
@@ -155,41 +139,31 @@ export class RegistrationComponent implements OnInit, OnDestroy {
     }
 
     // Weak password (422) - password doesn't meet strength requirements
-    if (error.status === 422) {
+    if (appError.kind === 'unprocessable') {
       return {
         code: 'WEAK_PASSWORD',
         message:
           'Password does not meet strength requirements. Please choose a stronger password.',
-        details: { field: 'password' },
+        details: { field: 'password', fieldErrors: appError.fieldErrors },
       };
     }
 
-    // Rate limited (429) - too many attempts
-    if (error.status === 429) {
-      const retryAfter = error.error?.error?.details?.retryAfter || 900;
-      return {
-        code: 'RATE_LIMITED',
-        message: `Too many registration attempts. Please try again in ${Math.ceil(
-          retryAfter / 60
-        )} minutes.`,
-        details: { retryAfter },
-      };
+    if (appError.kind === 'server') {
+      this.logger.error('Server error during registration', error);
     }
 
-    // Server error (5xx)
-    if (error.status >= 500) {
-      console.error('Server error during registration:', error);
-      return {
-        code: 'SERVER_ERROR',
-        message: 'An unexpected error occurred. Please try again later.',
-      };
-    }
+    return toLoginError(appError, {
+      rate_limited: (e) =>
+        `Too many registration attempts. Please try again in ${formatRetryAfter(e.retryAfter)}.`,
+    });
+  }
 
-    // Unknown/unhandled error
-    return {
-      code: 'SERVER_ERROR',
-      message: 'An unexpected error occurred. Please try again later.',
-    };
+  /**
+   * Send the verification email again from the success message
+   * @param email - Address used for registration
+   */
+  onResendVerification(email: string): void {
+    this.resendVerification.resend(email);
   }
 
   /**
@@ -0,0 +1,139 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  output,
+  signal,
+} from '@angular/core';
+import { CommonModule, NgClass } from '@angular/common';
+import {
+  AbstractControl,
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators,
+} from '@angular/forms';
+import { NzIconModule } from 'ng-zorro-antd/icon';
+import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { FormErrorAlertComponent } from '../../../login/components/form-error-alert/form-error-alert.component';
+import { PasswordStrengthIndicatorComponent } from '../../../registration/components/password-strength-indicator/password-strength-indicator.component';
+import { PasswordStrengthAnalyzer } from '../../../../utils/password-strength';
+import { LoginError, ResetPasswordFormValue } from '../../../../../types';
+
+/**
+ * ResetPasswordFormComponent
+ *
+ * New password form for the reset flow with:
+ * - Password and confirm password fields
+ * - Password strength indicator shared with registration
+ * - Weak passwords rejected before submit using PasswordStrengthAnalyzer
+ */
+@Component({
+  selector: 'app-reset-password-form',
+  standalone: true,
+  imports: [
+    CommonModule,
+    NgClass,
+    ReactiveFormsModule,
+    NzIconModule,
+    NzSpinModule,
+    FormErrorAlertComponent,
+    PasswordStrengthIndicatorComponent,
+  ],
+  templateUrl: './reset-password-form.component.html',
+  styleUrl: './reset-password-form.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ResetPasswordFormComponent {
+  private readonly fb = inject(FormBuilder);
+
+  // Inputs using modern Angular 19 input() function
+  isLoading = input(false);
+  error = input<LoginError | null>(null);
+
+  // Outputs using modern Angular 19 output() function
+  onSubmit = output<ResetPasswordFormValue>();
+  onErrorDismiss = output<void>();
+
+  showPassword = signal(false);
+
+  formGroup: FormGroup = this.fb.group(
+    {
+      password: ['', [Validators.required, this.strengthValidator]],
+      confirmPassword: ['', [Validators.required]],
+    },
+    { validators: this.passwordMatchValidator }
+  );
+
+  /**
+   * Reject passwords PasswordStrengthAnalyzer rates as weak
+   */
+  private strengthValidator(control: AbstractControl): ValidationErrors | null {
+    if (!control.value) return null;
+    return PasswordStrengthAnalyzer.analyze(control.value).level === 'weak'
+      ? { weakPassword: true }
+      : null;
+  }
+
+  /**
+   * Custom validator to check if passwords match
+   */
+  private passwordMatchValidator(group: AbstractControl): ValidationErrors | null {
+    const password = group.get('password')?.value;
+    const confirmPassword = group.get('confirmPassword')?.value;
+    return password === confirmPassword ? null : { passwordMismatch: true };
+  }
+
+  /**
+   * Handle form submission
+   */
+  submit(): void {
+    if (this.formGroup.invalid) {
+      this.formGroup.markAllAsTouched();
+      return;
+    }
+
+    // Prevent multiple submissions
+    if (this.isLoading()) {
+      return;
+    }
+
+    this.onSubmit.emit(this.formGroup.value as ResetPasswordFormValue);
+  }
+
+  dismissError(): void {
+    this.onErrorDismiss.emit();
+  }
+
+  getPasswordValue(): string {
+    return this.formGroup.get('password')?.value || '';
+  }
+
+  getPasswordErrorMessage(): string | null {
+    const control = this.formGroup.get('password');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required')) {
+      return 'Password is required';
+    }
+    if (control.hasError('weakPassword')) {
+      return 'This password is too weak. Please choose a stronger one.';
+    }
+    return null;
+  }
+
+  getConfirmPasswordErrorMessage(): string | null {
+    const control = this.formGroup.get('confirmPassword');
+    if (!control || !control.touched) return null;
+
+    if (control.hasError('required')) {
+      return 'Confirm password is required';
+    }
+    if (this.formGroup.hasError('passwordMismatch')) {
+      return 'Passwords do not match';
+    }
+    return null;
+  }
+}
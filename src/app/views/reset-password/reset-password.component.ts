@@ -0,0 +1,203 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  OnInit,
+  OnDestroy,
+  inject,
+  signal,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subject, throwError } from 'rxjs';
+import { takeUntil, timeout, catchError } from 'rxjs/operators';
+import { NzSpinModule } from 'ng-zorro-antd/spin';
+import { AuthService } from '../../services/auth.service';
+import { API_CONFIG } from '../../config/api.config';
+import { normalizeApiError, toLoginError } from '../../utils/api-error';
+import { FormErrorAlertComponent } from '../login/components/form-error-alert/form-error-alert.component';
+import { ResetPasswordFormComponent } from './components/reset-password-form/reset-password-form.component';
+import { LoginError, ResetPasswordFormValue } from '../../../types';
+
+type ResetPasswordStep = 'verifying' | 'ready' | 'invalid' | 'success';
+
+/**
+ * ResetPasswordComponent
+ *
+ * Second step of the password reset flow, opened from the emailed link.
+ * Responsibilities:
+ * - Read the reset token from the `token` query param
+ * - Reject malformed tokens locally and verify the rest with the API
+ * - Show clear errors for invalid, expired or already used links
+ * - Submit the new password and send the user to sign in
+ */
+@Component({
+  selector: 'app-reset-password',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    NzSpinModule,
+    FormErrorAlertComponent,
+    ResetPasswordFormComponent,
+  ],
+  templateUrl: './reset-password.component.html',
+  styleUrl: './reset-password.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ResetPasswordComponent implements OnInit, OnDestroy {
+  private readonly authService = inject(AuthService);
+  private readonly apiConfig = inject(API_CONFIG);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroy$ = new Subject<void>();
+
+  // Reset tokens are URL-safe opaque strings
+  private readonly TOKEN_PATTERN = /^[A-Za-z0-9._~-]{16,2048}$/;
+
+  step = signal<ResetPasswordStep>('verifying');
+  isLoading = signal(false);
+  error = signal<LoginError | null>(null);
+
+  private token = '';
+
+  ngOnInit(): void {
+    this.token = this.route.snapshot.queryParams['token'] || '';
+
+    if (!this.TOKEN_PATTERN.test(this.token)) {
+      this.failWith({
+        code: 'RESET_TOKEN_INVALID',
+        message:
+          'This password reset link is invalid. Please request a new one.',
+      });
+      return;
+    }
+
+    this.authService
+      .verifyResetToken(this.token)
+      .pipe(timeout(this.apiConfig.timeoutMs), takeUntil(this.destroy$))
+      .subscribe({
+        next: () => this.step.set('ready'),
+        error: (error) => this.failWith(this.mapApiErrorToLoginError(error)),
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Handle form submission from ResetPasswordFormComponent
+   * @param value - New password and its confirmation
+   */
+  onSubmit(value: ResetPasswordFormValue): void {
+    // Prevent multiple simultaneous submissions
+    if (this.isLoading()) {
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.authService
+      .resetPassword({ token: this.token, password: value.password })
+      .pipe(
+        timeout(this.apiConfig.timeoutMs),
+        takeUntil(this.destroy$),
+        catchError((error) => {
+          this.isLoading.set(false);
+          const loginError = this.mapApiErrorToLoginError(error);
+          if (this.isTokenError(loginError)) {
+            this.failWith(loginError);
+          } else {
+            this.error.set(loginError);
+          }
+          return throwError(() => error);
+        })
+      )
+      .subscribe({
+        next: () => {
+          this.isLoading.set(false);
+          this.step.set('success');
+        },
+        error: () => {
+          // Error already handled in catchError
+        },
+      });
+  }
+
+  onErrorDismiss(): void {
+    this.error.set(null);
+  }
+
+  /**
+   * Navigate to login page
+   */
+  navigateToLogin(): void {
+    this.router.navigate(['/login']);
+  }
+
+  private failWith(error: LoginError): void {
+    this.error.set(error);
+    this.step.set('invalid');
+  }
+
+  private isTokenError(error: LoginError): boolean {
+    return (
+      error.code === 'RESET_TOKEN_INVALID' ||
+      error.code === 'RESET_TOKEN_EXPIRED' ||
+      error.code === 'RESET_TOKEN_USED'
+    );
+  }
+
+  /**
+   * Map HTTP error responses from the verify/reset endpoints to LoginError
+   * @param error - HttpErrorResponse or timeout from the API call
+   * @returns LoginError with appropriate code and message
+   */
+  private mapApiErrorToLoginError(error: unknown): LoginError {
+    const appError = normalizeApiError(error);
+
+    // Expired link (410 Gone, or API code on a 400)
+    if (appError.status === 410 || appError.apiCode === 'RESET_TOKEN_EXPIRED') {
+      return {
+        code: 'RESET_TOKEN_EXPIRED',
+        message:
+          'This password reset link has expired. Please request a new one.',
+        details: { action: 'forgot-password' },
+      };
+    }
+
+    // Link already used (409)
+    if (appError.kind === 'conflict' || appError.apiCode === 'RESET_TOKEN_USED') {
+      return {
+        code: 'RESET_TOKEN_USED',
+        message:
+          'This password reset link has already been used. Please request a new one if you still need to reset your password.',
+        details: { action: 'forgot-password' },
+      };
+    }
+
+    // Unknown token (404, or API code on a 400)
+    if (appError.kind === 'not_found' || appError.apiCode === 'RESET_TOKEN_INVALID') {
+      return {
+        code: 'RESET_TOKEN_INVALID',
+        message:
+          'This password reset link is invalid. Please request a new one.',
+        details: { action: 'forgot-password' },
+      };
+    }
+
+    // Weak password (422)
+    if (appError.kind === 'unprocessable') {
+      return {
+        code: 'WEAK_PASSWORD',
+        message:
+          'Password does not meet strength requirements. Please choose a stronger password.',
+        details: { field: 'password', fieldErrors: appError.fieldErrors },
+      };
+    }
+
+    return toLoginError(appError);
+  }
+}
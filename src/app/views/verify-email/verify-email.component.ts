@@ -0,0 +1,99 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  OnInit,
+  OnDestroy,
+  inject,
+  signal,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil, timeout } from 'rxjs/operators';
+import { NzAlertModule } from 'ng-zorro-antd/alert';
+import { NzButtonModule } from 'ng-zorro-antd/button';
+import { AuthService } from '../../services/auth.service';
+import { API_CONFIG } from '../../config/api.config';
+import { ResendVerificationService } from '../../services/resend-verification.service';
+import { formatCountdown } from '../../utils/countdown';
+
+/**
+ * VerifyEmailComponent
+ *
+ * Shown by verifiedEmailGuard to signed-in users whose email is not confirmed.
+ * Lets the user resend the verification email, re-check their status after
+ * clicking the link in another tab, or sign out.
+ */
+@Component({
+  selector: 'app-verify-email',
+  standalone: true,
+  imports: [CommonModule, NzAlertModule, NzButtonModule],
+  templateUrl: './verify-email.component.html',
+  styleUrl: './verify-email.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class VerifyEmailComponent implements OnInit, OnDestroy {
+  private readonly authService = inject(AuthService);
+  private readonly apiConfig = inject(API_CONFIG);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroy$ = new Subject<void>();
+  protected readonly resendVerification = inject(ResendVerificationService);
+  protected readonly formatCountdown = formatCountdown;
+
+  readonly email = this.authService.userEmail;
+  isChecking = signal(false);
+  stillUnverified = signal(false);
+
+  private returnUrl = '/dashboard';
+
+  ngOnInit(): void {
+    this.returnUrl =
+      this.route.snapshot.queryParams['returnUrl'] || '/dashboard';
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onResend(): void {
+    const email = this.email();
+    if (email) {
+      this.resendVerification.resend(email);
+    }
+  }
+
+  /**
+   * Re-fetch /api/me and continue once the email is confirmed
+   */
+  onCheckAgain(): void {
+    if (this.isChecking()) return;
+
+    this.isChecking.set(true);
+    this.stillUnverified.set(false);
+
+    this.authService
+      .loadMe(true)
+      .pipe(timeout(this.apiConfig.timeoutMs), takeUntil(this.destroy$))
+      .subscribe({
+        next: (me) => {
+          this.isChecking.set(false);
+          if (me.emailVerified) {
+            this.router.navigateByUrl(this.returnUrl);
+          } else {
+            this.stillUnverified.set(true);
+          }
+        },
+        error: () => {
+          this.isChecking.set(false);
+          this.stillUnverified.set(true);
+        },
+      });
+  }
+
+  onSignOut(): void {
+    this.authService.signOut();
+    this.router.navigate(['/login']);
+  }
+}
@@ -0,0 +1,22 @@
+import { Environment } from '../app/config/api.config';
+
+// Local development: `ng serve` against the API on port 3000
+export const environment: Environment = {
+  production: false,
+  runtimeConfigUrl: null,
+  api: {
+    baseUrl: 'http://localhost:3000/api',
+    timeoutMs: 10000,
+    maxRequestTimeoutMs: 30000,
+    retryCount: 2,
+    responseValidationSampleRate: 1,
+  },
+  logging: {
+    minLevel: 'debug',
+    batchSize: 20,
+    flushIntervalMs: 2000,
+    // A local collector can receive shipped warnings and errors, e.g. 'http://localhost:4318/logs'
+    collectorUrl: null,
+  },
+  httpInterceptors: [],
+};
@@ -0,0 +1,22 @@
+import { Environment } from '../app/config/api.config';
+import { mockBackendInterceptor } from '../app/interceptors/mock-backend.interceptor';
+
+// Offline development and unit tests: `npm run start:mock`, `ng test`
+export const environment: Environment = {
+  production: false,
+  runtimeConfigUrl: null,
+  api: {
+    baseUrl: '/api',
+    timeoutMs: 10000,
+    maxRequestTimeoutMs: 30000,
+    retryCount: 0,
+    responseValidationSampleRate: 1,
+  },
+  logging: {
+    minLevel: 'debug',
+    batchSize: 20,
+    flushIntervalMs: 2000,
+    collectorUrl: null,
+  },
+  httpInterceptors: [mockBackendInterceptor],
+};
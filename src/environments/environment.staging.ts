@@ -0,0 +1,22 @@
+import { Environment } from '../app/config/api.config';
+
+// Staging build: `ng build --configuration staging`
+export const environment: Environment = {
+  production: true,
+  // Loaded at startup, overrides `api` so one build can serve several environments
+  runtimeConfigUrl: 'config.json',
+  api: {
+    baseUrl: '/api',
+    timeoutMs: 15000,
+    maxRequestTimeoutMs: 30000,
+    retryCount: 2,
+    responseValidationSampleRate: 1,
+  },
+  logging: {
+    minLevel: 'info',
+    batchSize: 20,
+    flushIntervalMs: 10000,
+    collectorUrl: null,
+  },
+  httpInterceptors: [],
+};
@@ -1,6 +1,14 @@
 import { bootstrapApplication } from '@angular/platform-browser';
 import { appConfig } from './app/app.config';
 import { AppComponent } from './app/app.component';
+import { loadApiConfig, provideApiConfig } from './app/config/api.config';
 
-bootstrapApplication(AppComponent, appConfig)
+// Runtime config.json must be in place before any service reads API_CONFIG
+loadApiConfig()
+  .then((apiConfig) =>
+    bootstrapApplication(AppComponent, {
+      ...appConfig,
+      providers: [...appConfig.providers, provideApiConfig(apiConfig)],
+    })
+  )
   .catch((err) => console.error(err));
@@ -1,4 +1,4 @@
-import { Enums, Tables, TablesUpdate, TablesInsert } from "./db/database.types";
+import { Database, Enums, Tables, TablesUpdate, TablesInsert } from "./db/database.types";
 
   // Alias for UUIDs as strings (Supabase exposes UUIDs as strings in generated types)
   export type UUID = string;
@@ -21,6 +21,33 @@ import { Enums, Tables, TablesUpdate, TablesInsert } from "./db/database.types";
       details?: Record<string, unknown>;
     };
   };
+
+  // Failed request category, one per status in the API plan (see normalizeApiError)
+  export type AppErrorKind =
+    | 'network'        // No response (offline, CORS, DNS)
+    | 'timeout'        // Request timed out on the client
+    | 'validation'     // 400
+    | 'unauthorized'   // 401
+    | 'forbidden'      // 403
+    | 'not_found'      // 404
+    | 'conflict'       // 409
+    | 'unprocessable'  // 422
+    | 'rate_limited'   // 429
+    | 'server'         // 5xx
+    | 'invalid_response' // 2xx whose body does not match the DTO schema
+    | 'unknown';
+
+  // Any failed API call, normalized from HttpErrorResponse and ErrorResponseDto
+  export type AppError = {
+    kind: AppErrorKind;
+    status: number;                                         // HTTP status, 0 when there was no response
+    apiCode: string | null;                                 // ErrorResponseDto error.code
+    message: string | null;                                 // ErrorResponseDto error.message
+    details: Record<string, unknown>;                       // ErrorResponseDto error.details
+    fieldErrors: Record<string, string>;                    // Per-field messages for forms
+    retryAfter: number | null;                              // Seconds to wait (429)
+    recoverable: boolean;                                   // Retrying the same request may succeed
+  };
   
   export type CategorySort = 'name_asc' | 'name_desc';
   export type NotesSort = 'created_at_desc' | 'created_at_asc' | 'updated_at_desc';
@@ -61,6 +88,11 @@ import { Enums, Tables, TablesUpdate, TablesInsert } from "./db/database.types";
     session: SignInSessionDto;
   };
 
+  // Request type for the session refresh endpoint (responds with SignInResponseDto)
+  export type RefreshSessionRequest = {
+    refresh_token: string;
+  };
+
   // Registration-specific types
   export type SignUpFormValue = {
     email: string;           // User's email address, used for registration
@@ -79,6 +111,15 @@ import { Enums, Tables, TablesUpdate, TablesInsert } from "./db/database.types";
       hasNumbers: boolean;                                  // Contains numeric digits
       hasSpecialChars: boolean;                             // Contains special characters
     };
+    entropyBits: number;                                    // Estimated entropy after pattern penalties
+    crackTimeSeconds: number;                               // Average offline cracking time (slow hash)
+    crackTimeDisplay: string;                               // Human-readable crack time, e.g. "3 hours"
+    isBreached: boolean;                                    // Found in the bundled breached-password filter
+  };
+
+  // User data a password should not contain
+  export type PasswordStrengthContext = {
+    email?: string | null;                                  // Local-part before '@' is penalized
   };
 
   export type RegistrationViewState = {
@@ -101,19 +142,22 @@ import { Enums, Tables, TablesUpdate, TablesInsert } from "./db/database.types";
   };
 
   export type LoginError = {
-    code: 'VALIDATION_ERROR' | 'INVALID_CREDENTIALS' | 'SERVER_ERROR' | 'UNVERIFIED_EMAIL' | 'RATE_LIMITED' | 'NETWORK_ERROR' | 'EMAIL_EXISTS' | 'WEAK_PASSWORD';
+    code: 'VALIDATION_ERROR' | 'INVALID_CREDENTIALS' | 'SERVER_ERROR' | 'UNVERIFIED_EMAIL' | 'RATE_LIMITED' | 'NETWORK_ERROR' | 'EMAIL_EXISTS' | 'WEAK_PASSWORD' | 'RESET_TOKEN_INVALID' | 'RESET_TOKEN_EXPIRED' | 'RESET_TOKEN_USED' | 'VERIFICATION_LINK_INVALID' | 'VERIFICATION_LINK_EXPIRED' | 'MFA_REQUIRED' | 'MFA_CODE_INVALID' | 'UNAUTHORIZED' | 'FORBIDDEN' | 'NOT_FOUND' | 'CONFLICT';
     message: string;
     details?: {
       field?: string;
       reason?: string;
       retryAfter?: number;
       action?: string;
+      mfaToken?: string;    // Pending sign-in to complete with a second factor (MFA_REQUIRED)
+      fieldErrors?: Record<string, string>; // Server-side messages per form field
     };
   };
 
   export type LoginFormValue = {
     email: string;
     password: string;
+    rememberMe: boolean;
   };
 
   export type LoginViewState = {
@@ -121,7 +165,13 @@ import { Enums, Tables, TablesUpdate, TablesInsert } from "./db/database.types";
     error: LoginError | null;
     formValue: LoginFormValue;
     emailValidated: boolean;
-    lastAttemptTime?: Date;
+  };
+
+  // Failed sign-ins tracked in the browser, persisted across reloads
+  export type LoginAttemptRecord = {
+    failedAttempts: number;                                 // Failures within the current window
+    lastAttemptTime: number;                                // Epoch ms of the latest failure
+    lockedUntil: number | null;                             // Epoch ms when sign-in is allowed again
   };
 
   // Request type for sign-up endpoint
@@ -129,6 +179,140 @@ import { Enums, Tables, TablesUpdate, TablesInsert } from "./db/database.types";
     email: string;      // Valid email address, must be unique
     password: string;   // Non-empty password, min 6 chars (enforced by Supabase)
   };
+
+  // Request type for the resend verification email endpoint
+  export type ResendVerificationRequest = {
+    email: string;
+  };
+
+  // Email confirmation link types handled by the /auth/callback route
+  export type EmailVerificationType = 'signup' | 'email' | 'invite' | 'magiclink' | 'email_change';
+
+  // Request type for exchanging a confirmation token_hash for a session
+  export type VerifyEmailRequest = {
+    token_hash: string;
+    type: EmailVerificationType;
+  };
+
+  export type ResendVerificationStatus = {
+    state: 'idle' | 'sending' | 'sent' | 'error';           // Outcome of the last resend attempt
+    cooldownSeconds: number;                                // Seconds until another resend is allowed
+    error: LoginError | null;                               // Failure details when state is 'error'
+  };
+
+  // ===============
+  // Password Reset
+  // ===============
+
+  export type ForgotPasswordRequest = {
+    email: string;
+    redirect_to?: string;   // Page the emailed reset link should open (defaults server-side)
+  };
+
+  export type VerifyResetTokenRequest = {
+    token: string;          // Token from the reset link query string
+  };
+
+  export type ResetPasswordRequest = {
+    token: string;
+    password: string;       // New password, same strength rules as sign-up
+  };
+
+  export type ResetPasswordFormValue = {
+    password: string;
+    confirmPassword: string; // Confirmation password field (frontend only)
+  };
+
+  // =================
+  // Account Settings
+  // =================
+
+  export type ChangePasswordRequest = {
+    current_password: string;
+    new_password: string;     // Same strength rules as sign-up
+  };
+
+  export type ChangePasswordFormValue = {
+    currentPassword: string;
+    newPassword: string;
+    confirmPassword: string;  // Confirmation password field (frontend only)
+  };
+
+  export type ChangeEmailRequest = {
+    new_email: string;
+    password: string;         // Current password, re-authenticates the change
+    redirect_to?: string;     // Page the confirmation link should open (defaults server-side)
+  };
+
+  export type ChangeEmailFormValue = {
+    newEmail: string;
+    password: string;
+  };
+
+  // =================
+  // Account Deletion
+  // =================
+
+  // Per-user tables purged when an account is deleted
+  export type AccountDataTable = Extract<
+    keyof Database['public']['Tables'],
+    'notes' | 'reports' | 'report_deliveries' | 'report_feedback' | 'analytics_events' | 'profiles' | 'preferences'
+  >;
+
+  export type DeleteAccountRequest = {
+    password: string;         // Current password, re-authenticates the deletion
+    confirmation: string;     // Typed confirmation phrase, checked server-side as well
+  };
+
+  export type DeleteAccountFormValue = DeleteAccountRequest;
+
+  // ==========================
+  // Two-Factor Authentication
+  // ==========================
+
+  // Second sign-in step after /sign-in answered 401 `mfa_required`;
+  // send either a TOTP code or one of the recovery codes
+  export type MfaChallengeRequest = {
+    mfa_token: string;
+    code?: string;            // 6-digit code from the authenticator app
+    recovery_code?: string;   // Single-use fallback code
+  };
+
+  export type MfaChallengeFormValue = {
+    method: 'totp' | 'recovery';
+    code: string;
+  };
+
+  export type MfaStatusDto = {
+    totp_enabled: boolean;
+    recovery_codes_remaining: number;
+  };
+
+  // Pending TOTP factor; becomes active once a code from it is verified
+  export type TotpEnrollmentDto = {
+    factor_id: UUID;
+    otpauth_uri: string;      // otpauth://totp/... for manual entry or QR rendering
+    qr_code: string;          // SVG data URL of the otpauth URI
+    secret: string;           // Base32 secret for apps that cannot scan QR codes
+  };
+
+  export type VerifyTotpEnrollmentRequest = {
+    factor_id: UUID;
+    code: string;
+  };
+
+  export type DisableTotpRequest = {
+    code: string;             // Current TOTP code or a recovery code
+  };
+
+  export type RecoveryCodesDto = {
+    recovery_codes: string[];
+  };
+
+  // Generic acknowledgement returned by action endpoints
+  export type MessageResponseDto = {
+    message: string;
+  };
   
   // =========
   // Profiles
@@ -165,6 +349,12 @@ import { Enums, Tables, TablesUpdate, TablesInsert } from "./db/database.types";
     active_categories: UUID[];
     preferred_delivery_channels: DeliveryChannel[];
   };
+
+  // Report schedule chosen in the onboarding wizard
+  export type ReportScheduleValue = Pick<
+    UpdatePreferencesCommand,
+    'report_dow' | 'report_hour' | 'preferred_delivery_channels'
+  >;
   
   // ===========
   // Categories
@@ -300,4 +490,125 @@ import { Enums, Tables, TablesUpdate, TablesInsert } from "./db/database.types";
   export type AnalyticsEventsListResponseDto = PaginatedResponse<AnalyticsEventDto>;
   
   export type AnalyticsEventResponseDto = Pick<AnalyticsEventDto, 'id'>;
-  
\ No newline at end of file
+  
+  // ==========
+  // HTTP Cache
+  // ==========
+
+  // Caching declared per GET request (see withCache)
+  export type HttpCachePolicy = {
+    ttlMs: number;                                          // Freshness when the response sends no Cache-Control max-age
+    staleWhileRevalidate: boolean;                          // Emit a stale entry at once, then the revalidated response
+  };
+
+  // Cached response, persisted in IndexedDB until logout
+  export type HttpCacheEntry = {
+    url: string;                                            // Request URL with query, the cache key
+    body: unknown;
+    etag: string | null;                                    // Sent back as If-None-Match when revalidating
+    storedAt: number;                                       // Epoch ms of the last 200 or 304
+    expiresAt: number;                                      // Epoch ms after which the entry is revalidated
+  };
+
+  // =======
+  // Logging
+  // =======
+
+  // Severity of a client log entry, lowest first
+  export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+  // Structured client log entry, redacted before it reaches a sink (see LoggerService)
+  export type LogEntry = {
+    level: LogLevel;
+    scope: string | null;                                   // Feature that logged it, e.g. 'AUTH'
+    message: string;
+    context?: unknown;                                      // Error or data logged with the message
+    timestamp: string;                                      // ISO 8601
+  };
+
+  // ============
+  // Offline Sync
+  // ============
+
+  // Write kept in IndexedDB after a network error, replayed once connectivity returns
+  export type PendingWrite =
+    | { kind: 'create_note'; body: CreateNoteCommand }
+    | { kind: 'update_note'; noteId: UUID; body: UpdateNoteCommand }
+    | { kind: 'submit_feedback'; body: SubmitFeedbackCommand; upsert: boolean };
+
+  export type PendingWriteStatus =
+    | 'pending'    // Waiting for connectivity
+    | 'syncing'    // Being replayed
+    | 'conflict'   // Rejected with 409 (daily note limit, duplicate feedback)
+    | 'failed';    // Rejected for another reason, kept until the user discards it
+
+  export type PendingWriteItem = {
+    id: string;
+    userId: UUID;                                           // Replayed only in this user's session
+    write: PendingWrite;
+    status: PendingWriteStatus;
+    queuedAt: number;                                       // Epoch ms, replay order
+    error: AppError | null;                                 // Why the last replay was rejected
+  };
+
+  // Outcome of a write that is queued instead of failing when offline
+  export type OfflineWriteResult<T> =
+    | { queued: false; result: T }
+    | { queued: true; item: PendingWriteItem };
+
+  export type SyncProgress = {
+    done: number;                                           // Items replayed in the current run
+    total: number;                                          // Items the current run started with
+  };
+
+  // ===========
+  // Idempotency
+  // ===========
+
+  // Idempotency-Key kept for a request until it settles, persisted across reloads
+  export type IdempotencyKeyRecord = {
+    key: string;                                            // Value sent in the Idempotency-Key header
+    createdAt: number;                                      // Epoch ms, records older than a day are dropped
+  };
+
+  // ==========
+  // API Routes
+  // ==========
+
+  // Contract of each route called through ApiClient, keyed by "METHOD /path".
+  // `:name` path segments are filled from `params`; `query` values are
+  // serialized by ApiClient (arrays as repeated keys).
+  export type ApiRoutes = {
+    'GET /profile': { response: ProfileDto };
+    'PUT /profile': { body: UpdateProfileCommand; response: ProfileDto };
+
+    'GET /preferences': { response: PreferencesDto };
+    'PUT /preferences': { body: UpdatePreferencesCommand; response: PreferencesDto };
+
+    'GET /categories': { query: ListCategoriesQuery; response: ListCategoriesResponseDto };
+
+    'GET /notes': { query: ListNotesQuery; response: ListNotesResponseDto };
+    'POST /notes': { body: CreateNoteCommand; response: NoteDto };
+    'GET /notes/:id': { params: { id: UUID }; response: NoteDto };
+    'PUT /notes/:id': { params: { id: UUID }; body: UpdateNoteCommand; response: NoteDto };
+    'DELETE /notes/:id': { params: { id: UUID }; response: void };
+
+    'GET /dashboard': { query: DashboardQuery; response: DashboardDto };
+
+    'GET /reports': { query: ListReportsQuery; response: ListReportsResponseDto };
+    'GET /reports/:id': { params: { id: UUID }; response: ReportDto };
+    'POST /reports/generate': { body: GenerateReportCommand; response: ReportDto };
+    'DELETE /reports/:id': { params: { id: UUID }; response: void };
+
+    'GET /report-deliveries': { query: ListReportDeliveriesQuery; response: ListReportDeliveriesResponseDto };
+    'POST /reports/:id/deliveries/email': { params: { id: UUID }; response: EmailDeliveryResponseDto };
+    'POST /report-deliveries/:id/mark-opened': { params: { id: UUID }; response: void };
+
+    'POST /feedback': { query: { upsert?: boolean }; body: SubmitFeedbackCommand; response: ReportFeedbackDto };
+    'GET /feedback/:report_id': { params: { report_id: UUID }; response: ReportFeedbackDto };
+
+    'POST /analytics/events': { body: RecordAnalyticsEventCommand; response: AnalyticsEventResponseDto };
+    'GET /analytics/events': { query: ListAnalyticsEventsQuery; response: AnalyticsEventsListResponseDto };
+  };
+
+  export type ApiRoute = keyof ApiRoutes;